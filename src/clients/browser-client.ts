@@ -1,5 +1,7 @@
 import type { CookieEntry } from "../utils/types.js";
 import { detectChromeExecutable } from "../utils/helpers.js";
+import { httpPolicy } from "../utils/request-policy.js";
+import { postMultipart } from "../utils/upload.js";
 
 interface FetchResult {
   status: number;
@@ -71,51 +73,87 @@ export class BrowserClient {
     return result.body;
   }
 
+  /** GET `url` with Node's fetch, reusing the browser's cookies (including
+   *  cf_clearance) and user agent. Unlike request(), works for any
+   *  *.curseforge.com host without CORS restrictions. */
+  async requestDirect(url: string, extraHeaders?: Record<string, string>): Promise<unknown> {
+    return this.withSession(url, (session) =>
+      httpPolicy.fetch(url, { headers: { Accept: "application/json", ...session, ...extraHeaders } }),
+    );
+  }
+
+  /** Stream a file upload straight from disk with Node's fetch, using the
+   *  same browser session as requestDirect(). */
   async requestUpload(
     url: string,
-    fileBase64: string,
-    fileName: string,
+    filePath: string,
     metadataJson: string,
     extraHeaders?: Record<string, string>,
+    onProgress?: (sent: number, total: number) => void,
+  ): Promise<unknown> {
+    return this.withSession(url, (session) =>
+      postMultipart(url, {
+        filePath,
+        fields: { metadata: metadataJson },
+        headers: { Accept: "application/json", ...session, ...extraHeaders },
+        onProgress,
+      }),
+    );
+  }
+
+  /** Run `send` with the browser's Cookie and User-Agent headers so Cloudflare
+   *  treats it as the same session. Re-passes the challenge once on 403. */
+  private async withSession(
+    url: string,
+    send: (session: Record<string, string>) => Promise<Response>,
   ): Promise<unknown> {
     this.clearIdleTimer();
     await this.ensureInit();
-    const page = this.mainPage;
 
-    const result: FetchResult = await page.evaluate(
-      async ({ reqUrl, b64, name, meta, hdrs }: {
-        reqUrl: string; b64: string; name: string; meta: string; hdrs: Record<string, string>;
-      }) => {
-        const binary = atob(b64);
-        const bytes = new Uint8Array(binary.length);
-        for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    let res: Response;
+    try {
+      res = await send(await this.sessionHeaders(url));
+      if (res.status === 403) {
+        await res.body?.cancel().catch(() => {});
+        console.error(`[browser-client] Got 403 from ${new URL(url).hostname}, re-navigating to pass CF challenge`);
+        await this.passChallenge(url);
+        res = await send(await this.sessionHeaders(url));
+      }
+    } finally {
+      this.resetIdleTimer();
+    }
 
-        const formData = new FormData();
-        formData.append("metadata", meta);
-        formData.append("file", new Blob([bytes]), name);
+    const body = await res.text();
+    if (!res.ok) {
+      throw new Error(`HTTP ${res.status}: ${url}${body ? `\n${body.slice(0, 500)}` : ""}`);
+    }
+    if ((res.headers.get("content-type") || "").includes("application/json")) {
+      return JSON.parse(body);
+    }
+    return body;
+  }
 
-        const r = await fetch(reqUrl, {
-          method: "POST",
-          headers: hdrs,
-          body: formData,
-        });
-        return {
-          status: r.status,
-          contentType: r.headers.get("content-type") || "",
-          body: await r.text(),
-        };
-      },
-      { reqUrl: url, b64: fileBase64, name: fileName, meta: metadataJson, hdrs: extraHeaders || {} },
-    );
+  private async sessionHeaders(url: string): Promise<Record<string, string>> {
+    const cookies: Array<{ name: string; value: string }> = await this.context.cookies(url);
+    const userAgent: string = await this.mainPage.evaluate(() => navigator.userAgent);
+    return {
+      "User-Agent": userAgent,
+      Cookie: cookies.map((c) => `${c.name}=${c.value}`).join("; "),
+    };
+  }
 
-    if (result.status < 200 || result.status >= 300) {
-      throw new Error(`Upload failed (${result.status}): ${result.body?.slice(0, 500) || url}`);
-    }
-    this.resetIdleTimer();
-    if (result.contentType.includes("application/json")) {
-      return JSON.parse(result.body);
+  /** Refresh cf_clearance for the host of `url`. Other hosts get a throwaway
+   *  page so the main and authors pages stay on their own origins. */
+  private async passChallenge(url: string): Promise<void> {
+    const origin = new URL(url).origin;
+    if (origin === "https://www.curseforge.com") return this.navigateAndWaitForCf(this.mainPage, `${origin}/`);
+    if (origin === "https://authors.curseforge.com") return this.navigateAndWaitForCf(this.authorsPage, `${origin}/`);
+    const page = await this.context.newPage();
+    try {
+      await this.navigateAndWaitForCf(page, `${origin}/`);
+    } finally {
+      await page.close().catch(() => {});
     }
-    return result.body;
   }
 
   async refreshPages(): Promise<void> {
@@ -1,12 +1,28 @@
 import { USER_AGENT } from "../utils/helpers.js";
+import { httpPolicy } from "../utils/request-policy.js";
+import type { ResponseCache } from "./response-cache.js";
 
 const BASE = "https://api.cfwidget.com";
+const CACHE_TTL_MS = 60 * 60_000;
 
 export class CfWidgetClient {
+  constructor(private cache: ResponseCache | null = null) {}
+
   private async get(path: string): Promise<any> {
-    const res = await fetch(`${BASE}${path}`, {
-      headers: { "User-Agent": USER_AGENT, Accept: "application/json" },
-    });
+    if (!this.cache) return this.fetchJson(path);
+    return this.cache.wrap("cfwidget", path, CACHE_TTL_MS, () => this.fetchJson(path));
+  }
+
+  private async fetchJson(path: string): Promise<any> {
+    // First-time lookups answer 202 while CFWidget indexes the project — the policy re-polls
+    const res = await httpPolicy.fetch(
+      `${BASE}${path}`,
+      { headers: { "User-Agent": USER_AGENT, Accept: "application/json" } },
+      { poll202: true },
+    );
+    if (res.status === 202) {
+      throw new Error(`CFWidget is still indexing ${path} — try again in a minute`);
+    }
     if (!res.ok) {
       const body = await res.text().catch(() => "");
       throw new Error(`CFWidget ${res.status}: ${path}${body ? `\n${body.slice(0, 300)}` : ""}`);
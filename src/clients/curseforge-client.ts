@@ -1,5 +1,28 @@
 import { CurseForgeClient } from "curseforge-api";
 import type { Config } from "../config.js";
+import { httpPolicy } from "../utils/request-policy.js";
+import type { ResponseCache } from "./response-cache.js";
+
+const MINUTE = 60_000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+/** Cache lifetime per endpoint — static catalogs live long, file lists change with every release. */
+const TTL = {
+  games: DAY,
+  categories: DAY,
+  search: 5 * MINUTE,
+  mod: HOUR,
+  modFiles: 5 * MINUTE,
+  modFile: HOUR,
+  description: HOUR,
+  changelog: DAY,
+  downloadUrl: HOUR,
+  featured: 15 * MINUTE,
+  fingerprints: HOUR,
+  minecraftVersions: 6 * HOUR,
+  modLoaders: HOUR,
+};
 
 /** Remove keys with undefined values — curseforge-api spreads options into
  *  query params via Object.entries, so undefined becomes the literal string
@@ -10,6 +33,11 @@ function stripUndefined<T extends Record<string, unknown>>(obj: T): T {
   ) as T;
 }
 
+/** Multi-value search filters are sent as JSON arrays in a single query param. */
+function jsonList(values: Array<string | number> | undefined): string | undefined {
+  return values?.length ? JSON.stringify(values) : undefined;
+}
+
 /** Map user-friendly sort field names to CurseForgeModsSearchSortField enum values. */
 const SORT_FIELD_MAP: Record<string, number> = {
   featured: 1,
@@ -29,13 +57,22 @@ const SORT_FIELD_MAP: Record<string, number> = {
 export class CoreApiClient {
   private client: CurseForgeClient;
   private apiKey: string;
+  private cache: ResponseCache | null;
 
-  constructor(config: Config) {
+  constructor(config: Config, cache: ResponseCache | null = null) {
     if (!config.curseforgeApiKey) {
       throw new Error("CURSEFORGE_API_KEY is required for Core API access");
     }
     this.apiKey = config.curseforgeApiKey;
-    this.client = new CurseForgeClient(this.apiKey);
+    this.client = new CurseForgeClient(this.apiKey, {
+      fetch: (url: string, init?: RequestInit) => httpPolicy.fetch(url, init),
+    });
+    this.cache = cache;
+  }
+
+  private cached<T>(method: string, args: unknown[], ttlMs: number, fetcher: () => Promise<T>): Promise<T> {
+    if (!this.cache) return fetcher();
+    return this.cache.wrap(`core.${method}`, JSON.stringify(args), ttlMs, fetcher);
   }
 
   async searchMods(
@@ -44,9 +81,18 @@ export class CoreApiClient {
       searchFilter?: string;
       slug?: string;
       categoryId?: number;
+      /** Up to 10 category IDs */
+      categoryIds?: number[];
       classId?: number;
       gameVersion?: string;
+      /** Up to 4 game versions */
+      gameVersions?: string[];
       modLoaderType?: number;
+      /** Up to 5 mod loader types */
+      modLoaderTypes?: number[];
+      gameVersionTypeId?: number;
+      authorId?: number;
+      primaryAuthorId?: number;
       sortField?: string | number;
       sortOrder?: string;
       index?: number;
@@ -61,22 +107,31 @@ export class CoreApiClient {
       sortField = SORT_FIELD_MAP[options.sortField.toLowerCase()];
     }
 
-    return this.client.searchMods(gameId, stripUndefined({
+    const query = stripUndefined({
       searchFilter: options.searchFilter,
       slug: options.slug,
       categoryId: options.categoryId,
+      categoryIds: jsonList(options.categoryIds),
       classId: options.classId,
       gameVersion: options.gameVersion,
+      gameVersions: jsonList(options.gameVersions),
       modLoaderType: options.modLoaderType as any,
+      modLoaderTypes: jsonList(options.modLoaderTypes),
+      gameVersionTypeId: options.gameVersionTypeId,
+      authorId: options.authorId,
+      primaryAuthorId: options.primaryAuthorId,
       sortField: sortField as any,
       sortOrder: options.sortOrder as any,
       index: options.index,
       pageSize: options.pageSize,
-    }));
+    });
+    return this.cached("searchMods", [gameId, query], TTL.search, () =>
+      this.client.searchMods(gameId, query),
+    );
   }
 
   async getMod(modId: number) {
-    return this.client.getMod(modId);
+    return this.cached("getMod", [modId], TTL.mod, () => this.client.getMod(modId));
   }
 
   async getModFiles(
@@ -88,57 +143,107 @@ export class CoreApiClient {
       pageSize?: number;
     },
   ) {
-    return this.client.getModFiles(modId, stripUndefined({
+    const query = stripUndefined({
       gameVersion: options?.gameVersion,
       modLoaderType: options?.modLoaderType as any,
       index: options?.index,
       pageSize: options?.pageSize,
-    }));
+    });
+    return this.cached("getModFiles", [modId, query], TTL.modFiles, () =>
+      this.client.getModFiles(modId, query),
+    );
   }
 
   async getModDescription(
     modId: number,
     raw?: boolean,
   ): Promise<string> {
-    return this.client.getModDescription(modId, stripUndefined({ raw }));
+    return this.cached("getModDescription", [modId, raw], TTL.description, () =>
+      this.client.getModDescription(modId, stripUndefined({ raw })),
+    );
   }
 
   async getCategories(
     gameId: number,
     classId?: number,
   ) {
-    return this.client.getCategories(gameId, stripUndefined({ classId }));
+    return this.cached("getCategories", [gameId, classId], TTL.categories, () =>
+      this.client.getCategories(gameId, stripUndefined({ classId })),
+    );
   }
 
   async getGames() {
-    return this.client.getGames();
+    return this.cached("getGames", [], TTL.games, () => this.client.getGames());
   }
 
   async getGame(gameId: number) {
-    return this.client.getGame(gameId);
+    return this.cached("getGame", [gameId], TTL.games, () => this.client.getGame(gameId));
   }
 
   async getModFileChangelog(modId: number, fileId: number): Promise<string> {
-    return this.client.getModFileChangelog(modId, fileId);
+    return this.cached("getModFileChangelog", [modId, fileId], TTL.changelog, () =>
+      this.client.getModFileChangelog(modId, fileId),
+    );
   }
 
   async getModFileDownloadURL(modId: number, fileId: number): Promise<string> {
-    return this.client.getModFileDownloadURL(modId, fileId);
+    return this.cached("getModFileDownloadURL", [modId, fileId], TTL.downloadUrl, () =>
+      this.client.getModFileDownloadURL(modId, fileId),
+    );
   }
 
   async getModFile(modId: number, fileId: number) {
-    return this.client.getModFile(modId, fileId);
+    return this.cached("getModFile", [modId, fileId], TTL.modFile, () =>
+      this.client.getModFile(modId, fileId),
+    );
   }
 
   async getMods(modIds: number[]) {
-    return this.client.getMods(modIds);
+    const ids = [...modIds].sort((a, b) => a - b);
+    return this.cached("getMods", ids, TTL.mod, () => this.client.getMods(modIds));
+  }
+
+  async getFingerprintMatches(fingerprints: number[]) {
+    const sorted = [...fingerprints].sort((a, b) => a - b);
+    return this.cached("getFingerprintMatches", sorted, TTL.fingerprints, () =>
+      this.client.getFingerprintsMatches(fingerprints),
+    );
+  }
+
+  async getMinecraftVersions(sortDescending = true) {
+    return this.cached("getMinecraftVersions", [sortDescending], TTL.minecraftVersions, () =>
+      this.client.getMinecraftVersions({ sortDescending }),
+    );
+  }
+
+  async getMinecraftVersion(versionString: string) {
+    return this.cached("getMinecraftVersion", [versionString], TTL.minecraftVersions, () =>
+      this.client.getSpecificMinecraftVersion(versionString),
+    );
+  }
+
+  /** Loader index entries, optionally for one Minecraft version. Without
+   *  includeAll the API only returns latest/recommended builds. */
+  async getMinecraftModLoaders(version?: string, includeAll?: boolean) {
+    const query = stripUndefined({ version, includeAll });
+    return this.cached("getMinecraftModLoaders", [query], TTL.modLoaders, () =>
+      this.client.getMinecraftModLoaders(query),
+    );
+  }
+
+  async getMinecraftModLoader(name: string) {
+    return this.cached("getMinecraftModLoader", [name], TTL.modLoaders, () =>
+      this.client.getSpecificMinecraftModLoader(name),
+    );
   }
 
   async getFeaturedMods(gameId: number) {
-    return this.client.getFeaturedMods({
-      gameId,
-      excludedModIds: [],
-      gameVersionTypeId: null,
-    });
+    return this.cached("getFeaturedMods", [gameId], TTL.featured, () =>
+      this.client.getFeaturedMods({
+        gameId,
+        excludedModIds: [],
+        gameVersionTypeId: null,
+      }),
+    );
   }
 }
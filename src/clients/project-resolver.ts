@@ -0,0 +1,153 @@
+import type { CoreApiClient } from "./curseforge-client.js";
+import type { CfWidgetClient } from "./cfwidget-client.js";
+
+/** Game slugs that resolve without a getGames round trip */
+const KNOWN_GAMES: Record<string, number> = { minecraft: 432 };
+/** Default class per game for bare slugs on CFWidget, which needs a full path */
+const DEFAULT_CLASS: Record<string, string> = { minecraft: "mc-mods" };
+
+/** A mod reference split into its parts — either `id` or `slug` is set. */
+export interface ProjectRef {
+  id?: number;
+  gameSlug?: string;
+  classSlug?: string;
+  slug?: string;
+  /** From a file URL, e.g. .../jei/files/4712866 */
+  fileId?: number;
+}
+
+export interface ResolvedProject {
+  modId: number;
+  fileId?: number;
+}
+
+/** Parse a numeric ID, slug, curseforge.com project/file URL, authors-console
+ *  URL or CFWidget path ("minecraft/mc-mods/jei") into its parts. */
+export function parseProjectRef(ref: string | number): ProjectRef {
+  if (typeof ref === "number") return { id: ref };
+  const value = ref.trim();
+  if (/^\d+$/.test(value)) return { id: Number(value) };
+
+  let segments: string[];
+  let hostGame: string | undefined;
+  if (/^https?:\/\//i.test(value)) {
+    const url = new URL(value);
+    if (!/(^|\.)(curseforge|cfwidget)\.com$/i.test(url.hostname)) {
+      throw new Error(`Not a CurseForge URL: ${value}`);
+    }
+    // authors.curseforge.com keeps its route in the hash: #/projects/123/files
+    const route = url.hash.startsWith("#/") ? url.hash.slice(1) : url.pathname;
+    segments = route.split("/").filter(Boolean).map(decodeURIComponent);
+    // Legacy per-game hosts, e.g. minecraft.curseforge.com/projects/jei
+    const sub = url.hostname.toLowerCase().match(/^([a-z0-9-]+)\.curseforge\.com$/)?.[1];
+    if (sub && !["www", "authors", "legacy", "api"].includes(sub)) hostGame = sub;
+  } else {
+    segments = value.split("/").filter(Boolean);
+  }
+
+  if (segments[0] === "projects" && segments[1]) {
+    if (/^\d+$/.test(segments[1])) return { id: Number(segments[1]) };
+    // Legacy /projects/<slug>[/files/<id>] URLs, still common in modpack metadata
+    const fileId = segments[2] === "files" && /^\d+$/.test(segments[3] ?? "") ? Number(segments[3]) : undefined;
+    return { gameSlug: hostGame, slug: segments[1].toLowerCase(), fileId };
+  }
+  if (segments.length === 1) return { slug: segments[0].toLowerCase() };
+  if (segments.length >= 3) {
+    const fileId = ["files", "download"].includes(segments[3]) && /^\d+$/.test(segments[4] ?? "") ? Number(segments[4]) : undefined;
+    return {
+      gameSlug: segments[0].toLowerCase(),
+      classSlug: segments[1].toLowerCase(),
+      slug: segments[2].toLowerCase(),
+      fileId,
+    };
+  }
+  throw new Error(`Unrecognised project reference "${value}" — use an ID, slug, curseforge.com URL, projects/<slug> or a path like minecraft/mc-mods/jei`);
+}
+
+/** Turns any accepted project reference into a numeric mod ID. Slugs are
+ *  looked up with searchMods({slug}) when an API key is configured, otherwise
+ *  through CFWidget; results are memoized for the lifetime of the server. */
+export class ProjectResolver {
+  private slugs = new Map<string, Promise<number>>();
+  /** CFWidget projects fetched while resolving slugs without an API key, by mod ID */
+  private projects = new Map<number, any>();
+
+  constructor(
+    private core: CoreApiClient | null,
+    private cfwidget: CfWidgetClient,
+    /** Game assumed for bare slugs */
+    private defaultGame = "minecraft",
+  ) {}
+
+  /** `game` overrides the default game for bare slugs. */
+  async resolve(ref: string | number, game?: string): Promise<number> {
+    return (await this.resolveRef(ref, game)).modId;
+  }
+
+  async resolveMany(refs: Array<string | number>): Promise<number[]> {
+    return Promise.all(refs.map((r) => this.resolve(r)));
+  }
+
+  /** Like resolve(), but also returns the file ID when the reference is a file URL. */
+  async resolveRef(ref: string | number, defaultGame = this.defaultGame): Promise<ResolvedProject> {
+    const parsed = parseProjectRef(ref);
+    if (parsed.id !== undefined) return { modId: parsed.id };
+
+    const game = parsed.gameSlug ?? defaultGame;
+    const key = `${game}/${parsed.classSlug ?? "*"}/${parsed.slug}`;
+    let pending = this.slugs.get(key);
+    if (!pending) {
+      pending = this.lookupSlug(game, parsed.classSlug, parsed.slug!);
+      this.slugs.set(key, pending);
+      // Forget failures so a later call can retry
+      pending.catch(() => this.slugs.delete(key));
+    }
+    return { modId: await pending, fileId: parsed.fileId };
+  }
+
+  /** CFWidget project for any reference — reuses the one fetched while
+   *  resolving a slug instead of requesting it again by ID. */
+  async getCfWidgetProject(ref: string | number): Promise<any> {
+    const modId = await this.resolve(ref);
+    return this.projects.get(modId) ?? this.cfwidget.getProject(String(modId));
+  }
+
+  /** Mod and file ID for file-level tools — `fileId` wins over one taken from a file URL. */
+  async resolveFile(ref: string | number, fileId?: number): Promise<{ modId: number; fileId: number }> {
+    const resolved = await this.resolveRef(ref);
+    const id = fileId ?? resolved.fileId;
+    if (id === undefined) throw new Error("file_id is required unless the mod reference is a file URL");
+    return { modId: resolved.modId, fileId: id };
+  }
+
+  private async lookupSlug(game: string, classSlug: string | undefined, slug: string): Promise<number> {
+    if (!this.core) {
+      const cls = classSlug ?? DEFAULT_CLASS[game];
+      if (!cls) throw new Error(`Cannot resolve slug "${slug}" without CURSEFORGE_API_KEY — use the numeric ID or a full ${game}/<class>/${slug} path`);
+      const project = await this.cfwidget.getProject(`${game}/${cls}/${slug}`);
+      if (typeof project?.id !== "number") throw new Error(`CFWidget has no project at ${game}/${cls}/${slug}`);
+      this.projects.set(project.id, project);
+      return project.id;
+    }
+
+    const gameId = await this.gameId(game);
+    const classId = classSlug ? await this.classId(gameId, classSlug) : undefined;
+    const results = await this.core.searchMods(gameId, { slug, classId, pageSize: 10 });
+    const mod = (results.data as any[]).find((m) => m.slug === slug);
+    if (!mod) throw new Error(`No ${classSlug ?? "project"} with slug "${slug}" in ${game}`);
+    return mod.id;
+  }
+
+  private async gameId(slug: string): Promise<number> {
+    if (KNOWN_GAMES[slug]) return KNOWN_GAMES[slug];
+    const games = await this.core!.getGames();
+    const game = (games.data as any[]).find((g) => g.slug === slug);
+    if (!game) throw new Error(`Unknown game "${slug}"`);
+    return game.id;
+  }
+
+  private async classId(gameId: number, slug: string): Promise<number | undefined> {
+    const categories = await this.core!.getCategories(gameId);
+    return (categories as any[]).find((c) => c.isClass && c.slug === slug)?.id;
+  }
+}
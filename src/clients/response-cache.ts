@@ -0,0 +1,156 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import path from "node:path";
+
+const MAX_ENTRIES = 2000;
+const FLUSH_DELAY_MS = 1000;
+
+interface CacheEntry {
+  namespace: string;
+  value: unknown;
+  expiresAt: number;
+}
+
+export interface CacheStats {
+  entries: number;
+  hits: number;
+  misses: number;
+  diskHits: number;
+  byNamespace: Record<string, number>;
+  file: string;
+}
+
+/** Drop the back-reference to the curseforge-api client that every
+ *  CurseForgeMod/CurseForgeFile instance carries before writing to disk. */
+function replacer(key: string, value: unknown): unknown {
+  return key === "client" && value && typeof value === "object" ? undefined : value;
+}
+
+/** TTL cache for API responses — kept in memory and mirrored to a JSON file
+ *  so entries survive restarts. Values restored from disk are plain JSON:
+ *  dates come back as ISO strings and class methods are gone. */
+export class ResponseCache {
+  private entries = new Map<string, CacheEntry>();
+  private fromDisk = new Set<string>();
+  private hits = 0;
+  private misses = 0;
+  private diskHits = 0;
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private filePath: string;
+
+  constructor(cacheDir: string) {
+    this.filePath = path.resolve(cacheDir, "responses.json");
+    this.load();
+  }
+
+  /** Return the cached value for namespace+key, or call `fetcher` and cache its result for `ttlMs`. */
+  async wrap<T>(namespace: string, key: string, ttlMs: number, fetcher: () => Promise<T>): Promise<T> {
+    const id = `${namespace}:${key}`;
+    const entry = this.entries.get(id);
+    if (entry && entry.expiresAt > Date.now()) {
+      this.hits++;
+      if (this.fromDisk.has(id)) this.diskHits++;
+      return entry.value as T;
+    }
+
+    this.misses++;
+    const value = await fetcher();
+    this.entries.delete(id);
+    this.fromDisk.delete(id);
+    this.entries.set(id, { namespace, value, expiresAt: Date.now() + ttlMs });
+    this.evict();
+    this.scheduleFlush();
+    return value;
+  }
+
+  stats(): CacheStats {
+    const byNamespace: Record<string, number> = {};
+    for (const e of this.entries.values()) {
+      byNamespace[e.namespace] = (byNamespace[e.namespace] ?? 0) + 1;
+    }
+    return {
+      entries: this.entries.size,
+      hits: this.hits,
+      misses: this.misses,
+      diskHits: this.diskHits,
+      byNamespace,
+      file: this.filePath,
+    };
+  }
+
+  /** Live entries, optionally limited to one namespace. */
+  list(namespace?: string): Array<{ key: string; namespace: string; expiresAt: number }> {
+    const now = Date.now();
+    return [...this.entries.entries()]
+      .filter(([, e]) => e.expiresAt > now && (!namespace || e.namespace === namespace))
+      .map(([key, e]) => ({ key, namespace: e.namespace, expiresAt: e.expiresAt }));
+  }
+
+  /** Remove entries by namespace and/or key substring. Returns the number removed. */
+  invalidate(options: { namespace?: string; match?: string }): number {
+    let removed = 0;
+    for (const [key, e] of this.entries) {
+      if (options.namespace && e.namespace !== options.namespace) continue;
+      if (options.match && !key.includes(options.match)) continue;
+      this.entries.delete(key);
+      this.fromDisk.delete(key);
+      removed++;
+    }
+    if (removed) this.scheduleFlush();
+    return removed;
+  }
+
+  clear(): number {
+    const removed = this.entries.size;
+    this.entries.clear();
+    this.fromDisk.clear();
+    this.scheduleFlush();
+    return removed;
+  }
+
+  /** Write pending changes to disk immediately. */
+  flush(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    try {
+      const dir = path.dirname(this.filePath);
+      if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+      const now = Date.now();
+      const live = Object.fromEntries([...this.entries].filter(([, e]) => e.expiresAt > now));
+      writeFileSync(this.filePath, JSON.stringify(live, replacer));
+    } catch (e) {
+      console.error(`[cache] Failed to write ${this.filePath}: ${e instanceof Error ? e.message : e}`);
+    }
+  }
+
+  private load(): void {
+    if (!existsSync(this.filePath)) return;
+    try {
+      const data: Record<string, CacheEntry> = JSON.parse(readFileSync(this.filePath, "utf-8"));
+      const now = Date.now();
+      for (const [key, e] of Object.entries(data)) {
+        if (e.expiresAt <= now) continue;
+        this.entries.set(key, e);
+        this.fromDisk.add(key);
+      }
+    } catch {
+      // Corrupt cache file — start empty, it is rewritten on the next flush
+    }
+  }
+
+  private evict(): void {
+    // Map iteration order is insertion order, so the first keys are the oldest
+    for (const key of this.entries.keys()) {
+      if (this.entries.size <= MAX_ENTRIES) break;
+      this.entries.delete(key);
+      this.fromDisk.delete(key);
+    }
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushTimer) return;
+    this.flushTimer = setTimeout(() => this.flush(), FLUSH_DELAY_MS);
+    this.flushTimer.unref();
+  }
+}
@@ -1,54 +1,94 @@
-import { readFileSync } from "node:fs";
-import path from "node:path";
 import type { Config } from "../config.js";
 import type { WebClient } from "./web-client.js";
+import type { ResponseCache } from "./response-cache.js";
 import type { UploadMetadata } from "../utils/types.js";
+import {
+  matchGameVersions,
+  type UploadGameVersion,
+  type UploadGameVersionType,
+} from "../utils/upload-versions.js";
 
-const BASE_URL = "https://www.curseforge.com";
+const DEFAULT_BASE_URL = "https://www.curseforge.com";
+/** Games whose Upload API lives on their own subdomain. Everything else
+ *  (Hytale and other newer games) uses www.curseforge.com. */
+const GAME_BASE_URLS: Record<string, string> = {
+  minecraft: "https://minecraft.curseforge.com",
+  wow: "https://wow.curseforge.com",
+  kerbal: "https://kerbal.curseforge.com",
+};
+const VERSIONS_TTL_MS = 60 * 60 * 1000;
 
 export class UploadApiClient {
   private token: string;
   private web: WebClient;
+  private cache: ResponseCache | null;
+  private defaultGame: string;
 
-  constructor(config: Config, webClient: WebClient) {
+  constructor(config: Config, webClient: WebClient, cache: ResponseCache | null = null) {
     if (!config.curseforgeAuthorToken) {
       throw new Error("CURSEFORGE_AUTHOR_TOKEN is required for Upload API");
     }
     this.token = config.curseforgeAuthorToken;
     this.web = webClient;
+    this.cache = cache;
+    this.defaultGame = config.curseforgeGameSlug.toLowerCase();
   }
 
-  async getGameVersions(): Promise<
-    Array<{ id: number; gameVersionTypeID: number; name: string; slug: string }>
-  > {
-    return this.web.get(`${BASE_URL}/api/game/versions`, {
-      "X-Api-Token": this.token,
-    }) as any;
+  /** Effective game slug — the given one or CURSEFORGE_GAME_SLUG ("" when neither is set). */
+  game(gameSlug?: string): string {
+    return gameSlug?.toLowerCase() || this.defaultGame;
   }
 
-  async getGameVersionTypes(): Promise<
-    Array<{ id: number; name: string; slug: string }>
-  > {
-    return this.web.get(`${BASE_URL}/api/game/version-types`, {
-      "X-Api-Token": this.token,
-    }) as any;
+  /** Upload API base URL for a game slug, falling back to CURSEFORGE_GAME_SLUG. */
+  baseUrl(gameSlug?: string): string {
+    return GAME_BASE_URLS[this.game(gameSlug)] ?? DEFAULT_BASE_URL;
   }
 
+  async getGameVersions(gameSlug?: string): Promise<UploadGameVersion[]> {
+    return this.getList(gameSlug, "/api/game/versions");
+  }
+
+  async getGameVersionTypes(gameSlug?: string): Promise<UploadGameVersionType[]> {
+    return this.getList(gameSlug, "/api/game/version-types");
+  }
+
+  /** Version names or IDs → IDs, see matchGameVersions(). */
+  async resolveGameVersions(wanted: Array<string | number>, gameSlug?: string): Promise<number[]> {
+    if (!wanted.length) return [];
+    const [versions, types] = await Promise.all([
+      this.getGameVersions(gameSlug),
+      this.getGameVersionTypes(gameSlug),
+    ]);
+    return matchGameVersions(wanted, versions, types);
+  }
+
+  /** Streams the file from disk; `onProgress` receives bytes sent and the request size. */
   async uploadFile(
     projectId: number,
     filePath: string,
     metadata: UploadMetadata,
+    options: { gameSlug?: string; onProgress?: (sent: number, total: number) => void } = {},
   ): Promise<{ id: number }> {
-    const fileBuffer = readFileSync(filePath);
-    const fileName = path.basename(filePath);
-    const fileBase64 = fileBuffer.toString("base64");
-
     return this.web.uploadFile(
-      `${BASE_URL}/api/projects/${projectId}/upload-file`,
-      fileBase64,
-      fileName,
+      `${this.baseUrl(options.gameSlug)}/api/projects/${projectId}/upload-file`,
+      filePath,
       JSON.stringify(metadata),
       { "X-Api-Token": this.token },
+      options.onProgress,
     ) as any;
   }
+
+  private async getList<T>(gameSlug: string | undefined, path: string): Promise<T[]> {
+    const url = `${this.baseUrl(gameSlug)}${path}`;
+    const fetcher = async () => {
+      const data = await this.web.getDirect(url, { "X-Api-Token": this.token });
+      // Hosts without an Upload API redirect to an HTML landing page
+      if (!Array.isArray(data)) {
+        throw new Error(`${url} did not return a list — this game may have no upload versions (game_versions are optional for it)`);
+      }
+      return data as T[];
+    };
+    if (!this.cache) return fetcher();
+    return this.cache.wrap("upload", url, VERSIONS_TTL_MS, fetcher);
+  }
 }
@@ -200,14 +200,19 @@ export class WebClient {
     return this.request(url, "DELETE", undefined, extraHeaders);
   }
 
+  /** GET outside the browser page (Upload API hosts), reusing its Cloudflare session */
+  async getDirect(url: string, extraHeaders?: Record<string, string>): Promise<any> {
+    return this.browser.requestDirect(url, extraHeaders);
+  }
+
   async uploadFile(
     url: string,
-    fileBase64: string,
-    fileName: string,
+    filePath: string,
     metadataJson: string,
     extraHeaders?: Record<string, string>,
+    onProgress?: (sent: number, total: number) => void,
   ): Promise<unknown> {
-    return this.browser.requestUpload(url, fileBase64, fileName, metadataJson, extraHeaders);
+    return this.browser.requestUpload(url, filePath, metadataJson, extraHeaders, onProgress);
   }
 
   async close(): Promise<void> {
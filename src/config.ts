@@ -1,6 +1,8 @@
 import dotenv from "dotenv";
 import path from "node:path";
 import { fileURLToPath } from "node:url";
+import { z } from "zod/v4";
+import type { HostPolicy } from "./utils/request-policy.js";
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 
@@ -12,6 +14,49 @@ export interface Config {
   curseforgeGameSlug: string; // optional — used as default for upload API
   authDir: string;
   cookiesPath: string;
+  cacheDir: string;
+  httpPolicy: Record<string, Partial<HostPolicy>>; // per-host rate limit / retry overrides
+}
+
+const hostPolicySchema = z
+  .object({
+    ratePerSecond: z.number().positive(),
+    burst: z.number().positive(),
+    maxRetries: z.number().int().nonnegative(),
+    baseDelayMs: z.number().nonnegative(),
+    maxDelayMs: z.number().nonnegative(),
+    pollIntervalMs: z.number().nonnegative(),
+    maxPolls: z.number().int().nonnegative(),
+  })
+  .partial()
+  .strict();
+
+/** Hosts whose overrides fail validation are dropped (with a message naming the
+ *  bad key) so they fall back to the defaults instead of breaking the rate limiter. */
+function parseHttpPolicy(raw: string | undefined): Record<string, Partial<HostPolicy>> {
+  if (!raw) return {};
+  let json: unknown;
+  try {
+    json = JSON.parse(raw);
+  } catch {
+    console.error("[config] CURSEFORGE_HTTP_POLICY is not valid JSON — using defaults");
+    return {};
+  }
+  if (typeof json !== "object" || json === null || Array.isArray(json)) {
+    console.error("[config] CURSEFORGE_HTTP_POLICY must be an object keyed by host — using defaults");
+    return {};
+  }
+  const policies: Record<string, Partial<HostPolicy>> = {};
+  for (const [host, value] of Object.entries(json)) {
+    const parsed = hostPolicySchema.safeParse(value);
+    if (parsed.success) {
+      policies[host] = parsed.data;
+      continue;
+    }
+    const issues = parsed.error.issues.map((i) => `${[host, ...i.path].join(".")}: ${i.message}`);
+    console.error(`[config] CURSEFORGE_HTTP_POLICY ${issues.join("; ")} — using defaults for ${host}`);
+  }
+  return policies;
 }
 
 export function loadConfig(): Config {
@@ -22,5 +67,7 @@ export function loadConfig(): Config {
     curseforgeGameSlug: process.env.CURSEFORGE_GAME_SLUG || "",
     authDir,
     cookiesPath: path.resolve(authDir, "cookies.json"),
+    cacheDir: path.resolve(authDir, "cache"),
+    httpPolicy: parseHttpPolicy(process.env.CURSEFORGE_HTTP_POLICY),
   };
 }
@@ -0,0 +1,112 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod/v4";
+import { MOD_LOADER_LABELS } from "../utils/helpers.js";
+
+/** Single user message — the calling agent runs the referenced tools itself. */
+function instructions(text: string) {
+  return { messages: [{ role: "user" as const, content: { type: "text" as const, text } }] };
+}
+
+function splitIds(value: string): string[] {
+  return value.split(/[\s,]+/).filter(Boolean);
+}
+
+/** Core API mod loader type for a loader name ("Fabric" → 4), 0 (Any) when unset or unknown. */
+function loaderType(name: string | undefined): number {
+  const match = Object.entries(MOD_LOADER_LABELS).find(([, label]) => label.toLowerCase() === name?.trim().toLowerCase());
+  return match ? Number(match[0]) : 0;
+}
+
+export function registerAuthorPrompts(server: McpServer, coreApi: boolean): void {
+  server.registerPrompt(
+    "triage_comments",
+    {
+      title: "Triage Comments",
+      description: "Load unanswered comment threads on a project and propose a reply for each.",
+      argsSchema: {
+        project_id: z.string().describe("CurseForge project ID"),
+        pages: z.string().optional().describe("How many comment pages to scan (default 2)"),
+        tone: z.string().optional().describe('Reply tone, e.g. "friendly", "concise"'),
+      },
+    },
+    ({ project_id, pages, tone }) =>
+      instructions(
+        [
+          `Triage the comments on CurseForge project ${project_id}.`,
+          "",
+          `1. Call get_comments with mod_id=${project_id} for pages 1..${pages || "2"} (page_size 20). Focus on threads marked [NO REPLIES].`,
+          "2. Group the unanswered threads: bug report, question, feature request, praise, spam/off-topic.",
+          coreApi
+            ? `3. For bug reports and questions, check get_mod and get_mod_files for mod_id=${project_id} — note whether the latest file already addresses it.`
+            : "3. For bug reports and questions, check the project with get_project for context.",
+          `4. Draft one reply per thread${tone ? ` in a ${tone} tone` : ""}. Keep replies short, answer the actual question, and ask for logs or versions when a bug report lacks them.`,
+          "5. Present a table: comment ID | author | category | proposed reply. Flag spam as candidates for delete_comment.",
+          "",
+          "Do not call post_comment or delete_comment until I approve the drafts.",
+        ].join("\n"),
+      ),
+  );
+
+  if (!coreApi) return;
+
+  server.registerPrompt(
+    "prepare_release",
+    {
+      title: "Prepare Release",
+      description: "Gather recent changelogs for a project and draft the next changelog plus upload metadata.",
+      argsSchema: {
+        project_id: z.string().describe("CurseForge project ID"),
+        version: z.string().optional().describe("Version of the new release, e.g. 1.4.0"),
+        changes: z.string().optional().describe("Notes, commit messages or a diff summary for the new release"),
+        previous: z.string().optional().describe("How many earlier changelogs to read for style (default 3)"),
+      },
+    },
+    ({ project_id, version, changes, previous }) =>
+      instructions(
+        [
+          `Prepare the next release${version ? ` (${version})` : ""} of CurseForge project ${project_id}.`,
+          "",
+          `1. Call get_mod with mod_id=${project_id} and get_mod_files (page_size 10) to find the latest files, their game versions and release types.`,
+          `2. Call get_mod_changelog for the ${previous || "3"} most recent files and note the structure, headings and tone the author uses.`,
+          changes
+            ? `3. Turn these notes into a changelog in the same style:\n\n${changes}\n`
+            : "3. Ask me what changed, then draft a changelog in the same style.",
+          "4. Propose upload metadata for upload_file: display_name, release_type (alpha/beta/release), changelog_type, game versions (carried over from the latest file unless the notes say otherwise) and relations.",
+          "5. Show the changelog and the metadata as a single upload_file call for review.",
+          "",
+          "Do not upload anything until I confirm.",
+        ].join("\n"),
+      ),
+  );
+
+  server.registerPrompt(
+    "compare_mods",
+    {
+      title: "Compare Mods",
+      description: "Compare several mods side by side — popularity, maintenance, version support and dependencies.",
+      argsSchema: {
+        project_ids: z.string().describe("Comma-separated CurseForge project IDs"),
+        game_version: z.string().optional().describe("Game version that matters for the comparison, e.g. 1.20.1"),
+        mod_loader: z.string().optional().describe("Mod loader that matters, e.g. Fabric, NeoForge — used with game_version for dependency resolution"),
+      },
+    },
+    ({ project_ids, game_version, mod_loader }) => {
+      const ids = splitIds(project_ids);
+      const target = [game_version, mod_loader].filter(Boolean).join(" / ");
+      return instructions(
+        [
+          `Compare these CurseForge projects: ${ids.join(", ")}.`,
+          "",
+          `1. Call get_mods_batch with mod_ids=[${ids.join(", ")}] for downloads, authors, categories and last update.`,
+          `2. For each mod call get_mod_files${target ? ` filtered to ${target}` : ""} to check supported versions and how recently files were released.`,
+          // resolve_dependencies needs a target version; without one, read the latest file's relations instead
+          game_version
+            ? `3. Call resolve_dependencies for each mod with game_version=${game_version} and mod_loader_type=${loaderType(mod_loader)} to compare what it pulls in.`
+            : "3. Call get_file_details for each mod's latest file to compare its required dependencies.",
+          `4. Summarise in a table: mod | downloads | last file | supports ${target || "latest versions"} | required dependencies | source link.`,
+          "5. Finish with a short recommendation and the trade-offs behind it.",
+        ].join("\n"),
+      );
+    },
+  );
+}
@@ -0,0 +1,120 @@
+import { ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { CoreApiClient } from "../clients/curseforge-client.js";
+import type { CfWidgetClient } from "../clients/cfwidget-client.js";
+import type { ProjectResolver } from "../clients/project-resolver.js";
+import { formatModDetailed, formatFile, formatProject, stripHtml } from "../utils/helpers.js";
+
+/** Completion searches Minecraft — bare slugs resolve against it too (see ProjectResolver). */
+const MINECRAFT = 432;
+const FILES_PAGE_SIZE = 50;
+const COMPLETION_LIMIT = 10;
+
+function variable(value: string | string[]): string {
+  return decodeURIComponent(Array.isArray(value) ? value[0] : value);
+}
+
+function text(uri: URL, body: string, mimeType = "text/plain") {
+  return { contents: [{ uri: uri.href, mimeType, text: body }] };
+}
+
+function formatWidgetFile(f: any): string {
+  let line = `[${f.id}] ${f.display || f.name} (${f.type || "?"})`;
+  if (f.uploaded_at) line += ` | ${String(f.uploaded_at).slice(0, 10)}`;
+  if (f.versions?.length) line += `\n  versions: ${f.versions.join(", ")}`;
+  return line;
+}
+
+export function registerModResources(
+  server: McpServer,
+  client: CoreApiClient | null,
+  cfwidget: CfWidgetClient,
+  resolver: ProjectResolver,
+): void {
+  const widgetProject = async (id: string) => cfwidget.getProject(String(await resolver.resolve(id)));
+
+  const completeSlug = async (value: string): Promise<string[]> => {
+    if (!client || value.length < 2 || /^\d+$/.test(value)) return [];
+    try {
+      const results = await client.searchMods(MINECRAFT, {
+        searchFilter: value,
+        sortField: "popularity",
+        sortOrder: "desc",
+        pageSize: COMPLETION_LIMIT,
+      });
+      return results.data.map((m: any) => m.slug).filter(Boolean);
+    } catch {
+      return [];
+    }
+  };
+
+  const template = (uri: string) => new ResourceTemplate(uri, { list: undefined, complete: { id: completeSlug } });
+
+  server.registerResource(
+    "mod",
+    template("curseforge://mod/{id}"),
+    {
+      title: "CurseForge Mod",
+      description: "Mod details by numeric ID or slug. Uses the Core API, or CFWidget without an API key.",
+      mimeType: "text/plain",
+    },
+    async (uri, { id }) => {
+      if (!client) return text(uri, formatProject(await widgetProject(variable(id))));
+      const mod = await client.getMod(await resolver.resolve(variable(id)));
+      return text(uri, formatModDetailed(mod));
+    },
+  );
+
+  server.registerResource(
+    "mod-files",
+    template("curseforge://mod/{id}/files"),
+    {
+      title: "CurseForge Mod Files",
+      description: `Latest ${FILES_PAGE_SIZE} files of a mod, newest first.`,
+      mimeType: "text/plain",
+    },
+    async (uri, { id }) => {
+      if (!client) {
+        const project = await widgetProject(variable(id));
+        const files: any[] = project.files ?? [];
+        return text(uri, `${files.length} files:\n\n${files.slice(0, FILES_PAGE_SIZE).map(formatWidgetFile).join("\n\n")}`);
+      }
+      const result = await client.getModFiles(await resolver.resolve(variable(id)), { pageSize: FILES_PAGE_SIZE });
+      const lines = result.data.map((f: any) => formatFile(f));
+      return text(uri, `${result.pagination.totalCount} files (showing ${result.data.length}):\n\n${lines.join("\n\n")}`);
+    },
+  );
+
+  server.registerResource(
+    "mod-file-changelog",
+    template("curseforge://mod/{id}/file/{fileId}/changelog"),
+    {
+      title: "CurseForge File Changelog",
+      description: "Changelog of one mod file as plain text. Requires an API key.",
+      mimeType: "text/plain",
+    },
+    async (uri, { id, fileId }) => {
+      if (!client) throw new Error("File changelogs need CURSEFORGE_API_KEY — CFWidget does not provide them");
+      const html = await client.getModFileChangelog(await resolver.resolve(variable(id)), Number(variable(fileId)));
+      return text(uri, stripHtml(html));
+    },
+  );
+
+  server.registerResource(
+    "mod-description",
+    template("curseforge://mod/{id}/description"),
+    {
+      title: "CurseForge Mod Description",
+      description: "Full mod description as HTML.",
+      mimeType: "text/html",
+    },
+    async (uri, { id }) => {
+      if (!client) {
+        const project = await widgetProject(variable(id));
+        return text(uri, project.description ?? "", "text/html");
+      }
+      const html = await client.getModDescription(await resolver.resolve(variable(id)));
+      return text(uri, html, "text/html");
+    },
+  );
+}
@@ -1,29 +1,44 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { loadConfig } from "./config.js";
+import { httpPolicy } from "./utils/request-policy.js";
 import { CoreApiClient } from "./clients/curseforge-client.js";
 import { CfWidgetClient } from "./clients/cfwidget-client.js";
+import { ProjectResolver } from "./clients/project-resolver.js";
+import { ResponseCache } from "./clients/response-cache.js";
 import { UploadApiClient } from "./clients/upload-client.js";
 import { WebClient } from "./clients/web-client.js";
 import { registerCoreApiTools } from "./tools/core-api.js";
+import { registerModpackTools } from "./tools/modpack.js";
+import { registerDependencyTools } from "./tools/dependencies.js";
+import { registerLocalModTools } from "./tools/local-mods.js";
+import { registerCompatibilityTools } from "./tools/compatibility.js";
+import { registerMinecraftTools } from "./tools/minecraft.js";
+import { registerCacheTools } from "./tools/cache.js";
 import { registerUploadApiTools } from "./tools/upload-api.js";
 import { registerWebApiTools } from "./tools/web-api.js";
+import { registerModResources } from "./resources/mods.js";
+import { registerAuthorPrompts } from "./prompts/author-workflows.js";
 
-export async function createServer(): Promise<{ server: McpServer; webClient: WebClient }> {
+export async function createServer(): Promise<{ server: McpServer; webClient: WebClient; cache: ResponseCache }> {
   const config = loadConfig();
+  httpPolicy.configure(config.httpPolicy);
 
   const server = new McpServer({
     name: "curseforge-mcp",
     version: "0.2.0",
   });
 
+  // Response cache shared by Core API and CFWidget — memory + disk under .auth/cache
+  const cache = new ResponseCache(config.cacheDir);
+
   // CFWidget — always available, no API key needed
-  const cfwidget = new CfWidgetClient();
+  const cfwidget = new CfWidgetClient(cache);
 
   // Core API client — null if no API key
   let coreClient: CoreApiClient | null = null;
   if (config.curseforgeApiKey) {
     try {
-      coreClient = new CoreApiClient(config);
+      coreClient = new CoreApiClient(config, cache);
       console.error("[curseforge-mcp] Core API client ready");
     } catch (e) {
       console.error(
@@ -36,19 +51,36 @@ export async function createServer(): Promise<{ server: McpServer; webClient: We
     );
   }
 
+  // Mod IDs, slugs, URLs and CFWidget paths — shared by every tool that takes a mod_id/project_id
+  const resolver = new ProjectResolver(coreClient, cfwidget, config.curseforgeGameSlug.toLowerCase() || "minecraft");
+
   // Always register Core API tools (CFWidget tools always available, Core API tools only if key)
-  registerCoreApiTools(server, coreClient, cfwidget);
+  registerCoreApiTools(server, coreClient, cfwidget, resolver);
+  if (coreClient) {
+    registerModpackTools(server, coreClient, cfwidget, resolver);
+    registerDependencyTools(server, coreClient, resolver);
+    registerLocalModTools(server, coreClient);
+    registerCompatibilityTools(server, coreClient, resolver);
+    registerMinecraftTools(server, coreClient);
+  }
+  registerCacheTools(server, cache);
+
+  // Mod resources — curseforge://mod/{id}/... via Core API, CFWidget without a key
+  registerModResources(server, coreClient, cfwidget, resolver);
+
+  // Author workflow prompts — release/compare prompts reference Core API tools
+  registerAuthorPrompts(server, coreClient !== null);
 
   // Web API tools — always available (must init before Upload API since it provides browser)
   const webClient = new WebClient(config);
   await webClient.init();
-  registerWebApiTools(server, webClient);
+  registerWebApiTools(server, webClient, resolver);
 
   // Upload API tools — only if author token is provided (routes through WebClient/patchright)
   if (config.curseforgeAuthorToken) {
     try {
-      const uploadClient = new UploadApiClient(config, webClient);
-      registerUploadApiTools(server, uploadClient);
+      const uploadClient = new UploadApiClient(config, webClient, cache);
+      registerUploadApiTools(server, uploadClient, resolver, coreClient);
       console.error("[curseforge-mcp] Upload API tools registered");
     } catch (e) {
       console.error(
@@ -64,5 +96,5 @@ export async function createServer(): Promise<{ server: McpServer; webClient: We
     `[curseforge-mcp] Web API tools registered (cookies: ${webClient.hasCookies() ? "loaded" : "none"})`,
   );
 
-  return { server, webClient };
+  return { server, webClient, cache };
 }
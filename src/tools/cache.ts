@@ -0,0 +1,61 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod/v4";
+import type { ResponseCache } from "../clients/response-cache.js";
+import { success, error } from "../utils/types.js";
+
+export function registerCacheTools(
+  server: McpServer,
+  cache: ResponseCache,
+): void {
+  server.registerTool(
+    "manage_cache",
+    {
+      title: "Inspect / Invalidate Response Cache",
+      description:
+        "Inspect or invalidate the Core API / CFWidget response cache. action=stats shows hit rates, list shows live keys, invalidate removes entries by namespace (e.g. core.getModFiles, cfwidget) and/or key substring (e.g. a mod ID), clear drops everything.",
+      inputSchema: {
+        action: z.enum(["stats", "list", "invalidate", "clear"]).default("stats"),
+        namespace: z.string().optional().describe('e.g. "core.getMod", "core.getModFiles", "cfwidget"'),
+        match: z.string().optional().describe("Key substring for list/invalidate, e.g. a mod ID"),
+        limit: z.number().optional().default(50).describe("Max keys shown for action=list"),
+      },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
+    },
+    async ({ action, namespace, match, limit }) => {
+      try {
+        if (action === "stats") {
+          const s = cache.stats();
+          const total = s.hits + s.misses;
+          const rate = total ? ((s.hits / total) * 100).toFixed(1) : "0.0";
+          const ns = Object.entries(s.byNamespace)
+            .sort((a, b) => b[1] - a[1])
+            .map(([name, count]) => `  ${name}: ${count}`);
+          return success(
+            `${s.entries} entries | hits: ${s.hits} (${s.diskHits} from disk) | misses: ${s.misses} | hit rate: ${rate}%\nfile: ${s.file}${ns.length ? `\n${ns.join("\n")}` : ""}`,
+          );
+        }
+        if (action === "list") {
+          const entries = cache.list(namespace).filter((e) => !match || e.key.includes(match));
+          const lines = entries
+            .slice(0, limit)
+            .map((e) => `${e.key} (expires in ${Math.round((e.expiresAt - Date.now()) / 1000)}s)`);
+          return success(`${entries.length} entries${entries.length > limit ? ` (showing ${limit})` : ""}:\n${lines.join("\n")}`);
+        }
+        if (action === "invalidate") {
+          if (!namespace && !match) return error("manage_cache: invalidate needs namespace and/or match (use action=clear to drop everything)");
+          const removed = cache.invalidate({ namespace, match });
+          return success(`Removed ${removed} entries.`);
+        }
+        const removed = cache.clear();
+        return success(`Cache cleared (${removed} entries).`);
+      } catch (e) {
+        return error(`manage_cache: ${e instanceof Error ? e.message : String(e)}`);
+      }
+    },
+  );
+}
@@ -0,0 +1,122 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod/v4";
+import type { CoreApiClient } from "../clients/curseforge-client.js";
+import type { ProjectResolver } from "../clients/project-resolver.js";
+import { MOD_LOADER_LABELS, mapWithConcurrency } from "../utils/helpers.js";
+import { fetchModsById } from "../utils/mod-files.js";
+import {
+  matrixFromIndexes,
+  matrixFromFiles,
+  findCommonSupport,
+  type CompatibilityMatrix,
+  type MatrixCell,
+} from "../utils/compatibility.js";
+import { modRefSchema } from "../utils/schemas.js";
+import { withRetryReport } from "../utils/request-policy.js";
+import { success, error } from "../utils/types.js";
+
+const MOD_CONCURRENCY = 4;
+const COMMON_VERSIONS_SHOWN = 5;
+
+function formatCell(cell: MatrixCell | undefined): string {
+  if (!cell) return "—";
+  const parts: string[] = [];
+  if (cell.release !== undefined) parts.push(`R:${cell.release}`);
+  if (cell.beta !== undefined) parts.push(`B:${cell.beta}`);
+  if (cell.alpha !== undefined) parts.push(`A:${cell.alpha}`);
+  return parts.join(" ");
+}
+
+function formatMatrix(m: CompatibilityMatrix, name: string, maxVersions: number): string {
+  const lines = [`${name} (${m.modId}) — ${m.versions.length} versions × ${m.loaders.length} loaders`];
+  if (!m.cells.length) return `${lines[0]}\n  no files with game version information`;
+  const byKey = new Map(m.cells.map((c) => [`${c.gameVersion}\u0000${c.loader}`, c]));
+  lines.push(`| Version | ${m.loaders.join(" | ")} |`, `|---------|${m.loaders.map(() => "---").join("|")}|`);
+  for (const v of m.versions.slice(0, maxVersions)) {
+    lines.push(`| ${v} | ${m.loaders.map((l) => formatCell(byKey.get(`${v}\u0000${l}`))).join(" | ")} |`);
+  }
+  if (m.versions.length > maxVersions) lines.push(`… ${m.versions.length - maxVersions} older versions omitted`);
+  return lines.join("\n");
+}
+
+const cellSchema = z.object({
+  gameVersion: z.string(),
+  loader: z.string(),
+  release: z.number().optional(),
+  beta: z.number().optional(),
+  alpha: z.number().optional(),
+});
+
+export function registerCompatibilityTools(
+  server: McpServer,
+  client: CoreApiClient,
+  resolver: ProjectResolver,
+): void {
+  server.registerTool(
+    "get_compatibility_matrix",
+    {
+      title: "Game Version × Loader Matrix",
+      description:
+        "Build a matrix of game versions vs. mod loaders for one or more mods, with the newest release/beta/alpha file ID per cell. With several mods, also reports the highest game version they all support per loader. source=index uses latestFilesIndexes (one request per mod); source=files walks every file (complete but slower).",
+      inputSchema: {
+        mod_ids: z.array(modRefSchema).min(1).describe("One or more mod IDs, slugs or URLs"),
+        source: z.enum(["index", "files"]).optional().default("index"),
+        release_channel: z.enum(["release", "beta", "alpha"]).optional().default("release").describe("Least stable release type that counts as support when comparing mods"),
+        mod_loader_type: z.number().optional().describe("Only compare this loader: 0=Any,1=Forge,4=Fabric,5=Quilt,6=NeoForge"),
+        max_versions: z.number().int().min(1).optional().default(25).describe("Rows shown per matrix in the text output"),
+      },
+      outputSchema: {
+        mods: z.array(
+          z.object({
+            modId: z.number(),
+            name: z.string(),
+            versions: z.array(z.string()),
+            loaders: z.array(z.string()),
+            cells: z.array(cellSchema),
+          }),
+        ),
+        common: z
+          .array(z.object({ loader: z.string(), highestVersion: z.string(), versions: z.array(z.string()) }))
+          .describe("Versions every mod supports, per loader — empty for a single mod"),
+      },
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    withRetryReport(async ({ mod_ids, source, release_channel, mod_loader_type, max_versions }) => {
+      try {
+        const ids = [...new Set(await resolver.resolveMany(mod_ids))];
+        const build = source === "files" ? matrixFromFiles : matrixFromIndexes;
+        const [matrices, mods] = await Promise.all([
+          mapWithConcurrency(ids, MOD_CONCURRENCY, (id) => build(client, id)),
+          fetchModsById(client, ids),
+        ]);
+        const name = (id: number) => mods.get(id)?.name ?? `#${id}`;
+
+        const sections = matrices.map((m) => formatMatrix(m, name(m.modId), max_versions));
+        const loaderFilter = mod_loader_type !== undefined ? MOD_LOADER_LABELS[mod_loader_type] ?? String(mod_loader_type) : undefined;
+        const common = ids.length > 1 ? findCommonSupport(matrices, release_channel, loaderFilter) : [];
+
+        if (ids.length > 1) {
+          const lines = [`Common support (${release_channel} channel${loaderFilter ? `, ${loaderFilter}` : ""}):`];
+          if (!common.length) lines.push("  No game version is supported by all mods.");
+          for (const c of common) {
+            const more = c.versions.slice(1, COMMON_VERSIONS_SHOWN);
+            lines.push(`  ${c.loader}: ${c.versions[0]}${more.length ? ` (also ${more.join(", ")}${c.versions.length > COMMON_VERSIONS_SHOWN ? ", …" : ""})` : ""}`);
+          }
+          sections.push(lines.join("\n"));
+        }
+
+        return success(`Source: ${source === "files" ? "all files" : "latest file index"} | R=release B=beta A=alpha (file IDs)\n\n${sections.join("\n\n")}`, {
+          mods: matrices.map((m) => ({ ...m, name: name(m.modId) })),
+          common: common.map((c) => ({ loader: c.loader, highestVersion: c.versions[0], versions: c.versions })),
+        });
+      } catch (e) {
+        return error(`get_compatibility_matrix: ${e instanceof Error ? e.message : String(e)}`);
+      }
+    }),
+  );
+}
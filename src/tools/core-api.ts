@@ -1,29 +1,76 @@
-import { createWriteStream } from "node:fs";
-import { mkdir, stat } from "node:fs/promises";
-import { join } from "node:path";
-import { Readable } from "node:stream";
-import { pipeline } from "node:stream/promises";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod/v4";
 import type { CoreApiClient } from "../clients/curseforge-client.js";
 import type { CfWidgetClient } from "../clients/cfwidget-client.js";
+import type { ProjectResolver } from "../clients/project-resolver.js";
 import {
   formatMod,
   formatModDetailed,
   formatFile,
+  formatFileDetailed,
   formatGame,
   formatCategory,
   formatProject,
   stripHtml,
   truncate,
   compact,
+  fmtSize,
+  mapWithConcurrency,
+  RELEASE_LABELS,
 } from "../utils/helpers.js";
+import { downloadToFile } from "../utils/download.js";
+import { safeJoin } from "../utils/modpack.js";
+import {
+  fetchModsById,
+  fetchAllModFiles,
+  findNewestFile,
+  fileTime,
+  searchAllMods,
+  SEARCH_INDEX_LIMIT,
+} from "../utils/mod-files.js";
+import {
+  buildCategoryTree,
+  flattenTree,
+  findCategories,
+  formatCategoryTree,
+  searchParamsFor,
+  type CategoryNode,
+} from "../utils/categories.js";
+import {
+  modRefSchema,
+  paginationSchema,
+  modSchema,
+  modDetailSchema,
+  fileSchema,
+  fileDetailSchema,
+  gameSchema,
+  categorySchema,
+  categoryNodeSchema,
+  projectSchema,
+  toPagination,
+  toModSummary,
+  toModDetail,
+  toFileSummary,
+  toFileDetail,
+  toGame,
+  toCategory,
+  toCategoryNode,
+  toProject,
+} from "../utils/schemas.js";
+import { withRetryReport } from "../utils/request-policy.js";
 import { success, error } from "../utils/types.js";
 
+const PROGRESS_INTERVAL_MS = 250;
+const RETRY_BASE_MS = 1000;
+const CHANGELOG_CONCURRENCY = 4;
+/** Characters of changelog text returned by get_changelog_range, text and structured alike */
+const CHANGELOG_RANGE_LIMIT = 20000;
+
 export function registerCoreApiTools(
   server: McpServer,
   client: CoreApiClient | null,
   cfwidget: CfWidgetClient,
+  resolver: ProjectResolver,
 ): void {
   // ── Tools that require API key ──
 
@@ -33,19 +80,29 @@ export function registerCoreApiTools(
       {
         title: "Search CurseForge Mods",
         description:
-          "Search mods by name, category, game version, or mod loader. Requires API key.",
+          "Search mods by name, category, game version, mod loader or author. Array filters match any of their values. Set max_results to collect several pages at once (the API stops at 10,000 results). Requires API key.",
         inputSchema: {
           game_id: z.number().default(432).describe("Game ID (432=Minecraft)"),
           search_filter: z.string().optional().describe("Search query"),
           slug: z.string().optional().describe("Exact mod slug"),
           category_id: z.number().optional(),
+          category_ids: z.array(z.number()).max(10).optional().describe("Any of these categories (max 10)"),
           class_id: z.number().optional().describe("6=Mods, 4471=Modpacks"),
           game_version: z.string().optional().describe("e.g. '1.20.1'"),
+          game_versions: z.array(z.string()).max(4).optional().describe("Any of these game versions (max 4)"),
           mod_loader_type: z.number().optional().describe("0=Any,1=Forge,4=Fabric,5=Quilt,6=NeoForge"),
+          mod_loader_types: z.array(z.number()).max(5).optional().describe("Any of these loaders (max 5)"),
+          author_id: z.number().optional().describe("Mods this author is a member of"),
+          primary_author_id: z.number().optional().describe("Mods owned by this author"),
           sort_field: z.enum(["featured", "popularity", "lastUpdated", "name", "author", "totalDownloads", "category", "gameVersion", "earlyAccess", "featuredReleased", "releasedDate", "rating"]).optional().describe("Sort field"),
           sort_order: z.enum(["asc", "desc"]).optional(),
           page_index: z.number().optional().default(0),
           page_size: z.number().optional().default(10).describe("Max 50"),
+          max_results: z.number().int().min(1).max(SEARCH_INDEX_LIMIT).optional().describe("Auto-paginate: collect up to this many results starting at page_index (ignores page_size)"),
+        },
+        outputSchema: {
+          pagination: paginationSchema,
+          mods: z.array(modSchema),
         },
         annotations: {
           readOnlyHint: true,
@@ -54,36 +111,56 @@ export function registerCoreApiTools(
           openWorldHint: true,
         },
       },
-      async (params) => {
+      withRetryReport(async (params) => {
         try {
-          const results = await client.searchMods(params.game_id, {
+          const options = {
             searchFilter: params.search_filter,
             slug: params.slug,
             categoryId: params.category_id,
+            categoryIds: params.category_ids,
             classId: params.class_id,
             gameVersion: params.game_version,
+            gameVersions: params.game_versions,
             modLoaderType: params.mod_loader_type,
+            modLoaderTypes: params.mod_loader_types,
+            authorId: params.author_id,
+            primaryAuthorId: params.primary_author_id,
             sortField: params.sort_field,
             sortOrder: params.sort_order,
             index: params.page_index,
-            pageSize: params.page_size,
-          });
+          };
+
+          if (params.max_results !== undefined) {
+            const all = await searchAllMods(client, params.game_id, options, params.max_results);
+            const lines = all.mods.map((m: any) => formatMod(m));
+            const note = all.capped ? `, stopped at the API's ${SEARCH_INDEX_LIMIT.toLocaleString("en-US")}-result limit` : "";
+            return success(`${all.totalCount} results (collected ${all.mods.length}${note}):\n\n${lines.join("\n\n")}`, {
+              pagination: { index: all.start, pageSize: all.mods.length, resultCount: all.mods.length, totalCount: all.totalCount },
+              mods: all.mods.map(toModSummary),
+            });
+          }
+
+          const results = await client.searchMods(params.game_id, { ...options, pageSize: params.page_size });
           const lines = results.data.map((m: any) => formatMod(m));
-          return success(`${results.pagination.totalCount} results (showing ${results.data.length}):\n\n${lines.join("\n\n")}`);
+          return success(`${results.pagination.totalCount} results (showing ${results.data.length}):\n\n${lines.join("\n\n")}`, {
+            pagination: toPagination(results.pagination),
+            mods: results.data.map(toModSummary),
+          });
         } catch (e) {
           return error(`search_mods: ${e instanceof Error ? e.message : String(e)}`);
         }
-      },
+      }),
     );
 
     server.registerTool(
       "get_mod",
       {
         title: "Get Mod Details",
-        description: "Get full details of a CurseForge mod by ID.",
+        description: "Get full details of a CurseForge mod by ID, slug or URL.",
         inputSchema: {
-          mod_id: z.number().describe("CurseForge mod/project ID"),
+          mod_id: modRefSchema,
         },
+        outputSchema: { mod: modDetailSchema },
         annotations: {
           readOnlyHint: true,
           destructiveHint: false,
@@ -91,14 +168,14 @@ export function registerCoreApiTools(
           openWorldHint: true,
         },
       },
-      async ({ mod_id }) => {
+      withRetryReport(async ({ mod_id }) => {
         try {
-          const mod = await client.getMod(mod_id);
-          return success(formatModDetailed(mod));
+          const mod = await client.getMod(await resolver.resolve(mod_id));
+          return success(formatModDetailed(mod), { mod: toModDetail(mod) });
         } catch (e) {
           return error(`get_mod: ${e instanceof Error ? e.message : String(e)}`);
         }
-      },
+      }),
     );
 
     server.registerTool(
@@ -107,12 +184,16 @@ export function registerCoreApiTools(
         title: "Get Mod Files",
         description: "List files for a mod with optional filtering.",
         inputSchema: {
-          mod_id: z.number().describe("CurseForge mod/project ID"),
+          mod_id: modRefSchema,
           game_version: z.string().optional(),
           mod_loader_type: z.number().optional().describe("0=Any,1=Forge,4=Fabric"),
           page_index: z.number().optional().default(0),
           page_size: z.number().optional().default(10),
         },
+        outputSchema: {
+          pagination: paginationSchema,
+          files: z.array(fileSchema),
+        },
         annotations: {
           readOnlyHint: true,
           destructiveHint: false,
@@ -120,20 +201,23 @@ export function registerCoreApiTools(
           openWorldHint: true,
         },
       },
-      async (params) => {
+      withRetryReport(async (params) => {
         try {
-          const result = await client.getModFiles(params.mod_id, {
+          const result = await client.getModFiles(await resolver.resolve(params.mod_id), {
             gameVersion: params.game_version,
             modLoaderType: params.mod_loader_type,
             index: params.page_index,
             pageSize: params.page_size,
           });
           const lines = result.data.map((f: any) => formatFile(f));
-          return success(`${result.pagination.totalCount} files (showing ${result.data.length}):\n\n${lines.join("\n\n")}`);
+          return success(`${result.pagination.totalCount} files (showing ${result.data.length}):\n\n${lines.join("\n\n")}`, {
+            pagination: toPagination(result.pagination),
+            files: result.data.map(toFileSummary),
+          });
         } catch (e) {
           return error(`get_mod_files: ${e instanceof Error ? e.message : String(e)}`);
         }
-      },
+      }),
     );
 
     server.registerTool(
@@ -142,9 +226,10 @@ export function registerCoreApiTools(
         title: "Get Specific File",
         description: "Get details of a specific mod file by file ID.",
         inputSchema: {
-          mod_id: z.number().describe("CurseForge mod/project ID"),
-          file_id: z.number().describe("File ID"),
+          mod_id: modRefSchema,
+          file_id: z.number().optional().describe("File ID — optional when mod_id is a file URL"),
         },
+        outputSchema: { file: fileSchema },
         annotations: {
           readOnlyHint: true,
           destructiveHint: false,
@@ -152,14 +237,61 @@ export function registerCoreApiTools(
           openWorldHint: true,
         },
       },
-      async ({ mod_id, file_id }) => {
+      withRetryReport(async ({ mod_id, file_id }) => {
         try {
-          const file = await client.getModFile(mod_id, file_id);
-          return success(formatFile(file));
+          const ref = await resolver.resolveFile(mod_id, file_id);
+          const file = await client.getModFile(ref.modId, ref.fileId);
+          return success(formatFile(file), { file: toFileSummary(file) });
         } catch (e) {
           return error(`get_mod_file: ${e instanceof Error ? e.message : String(e)}`);
         }
+      }),
+    );
+
+    server.registerTool(
+      "get_file_details",
+      {
+        title: "Get File Details",
+        description:
+          "Full view of one mod file: dependencies with mod names, server pack / alternate / parent file IDs, hashes, fingerprint and modules. Use follow to jump to the file's server pack or alternate file (its ID can then be passed to download_mod).",
+        inputSchema: {
+          mod_id: modRefSchema,
+          file_id: z.number().optional().describe("File ID — optional when mod_id is a file URL"),
+          follow: z.enum(["server_pack", "alternate"]).optional().describe("Show the linked server pack or alternate file instead"),
+        },
+        outputSchema: {
+          file: fileDetailSchema,
+          followedFrom: z.number().optional().describe("File the server pack / alternate link was followed from"),
+        },
+        annotations: {
+          readOnlyHint: true,
+          destructiveHint: false,
+          idempotentHint: true,
+          openWorldHint: true,
+        },
       },
+      withRetryReport(async ({ mod_id, file_id, follow }) => {
+        try {
+          const ref = await resolver.resolveFile(mod_id, file_id);
+          let file: any = await client.getModFile(ref.modId, ref.fileId);
+          let followedFrom: number | undefined;
+          if (follow) {
+            const target = follow === "server_pack" ? file.serverPackFileId : file.alternateFileId;
+            if (!target) throw new Error(`File ${file.id} has no ${follow === "server_pack" ? "server pack" : "alternate"} file`);
+            followedFrom = file.id;
+            file = await client.getModFile(ref.modId, target);
+          }
+
+          const depIds: number[] = (file.dependencies ?? []).map((d: any) => d.modId);
+          const mods = depIds.length ? await fetchModsById(client, depIds) : new Map<number, any>();
+          const names = new Map([...mods].map(([id, m]) => [id, m.name as string]));
+
+          const header = followedFrom ? `${follow === "server_pack" ? "Server pack" : "Alternate file"} of ${followedFrom}:\n` : "";
+          return success(header + formatFileDetailed(file, names), { file: toFileDetail(file, names), followedFrom });
+        } catch (e) {
+          return error(`get_file_details: ${e instanceof Error ? e.message : String(e)}`);
+        }
+      }),
     );
 
     server.registerTool(
@@ -168,9 +300,14 @@ export function registerCoreApiTools(
         title: "Get Mod Description",
         description: "Get mod description as HTML or plain text.",
         inputSchema: {
-          mod_id: z.number().describe("CurseForge mod/project ID"),
+          mod_id: modRefSchema,
           format: z.enum(["html", "text"]).optional().default("text"),
         },
+        outputSchema: {
+          modId: z.number(),
+          format: z.enum(["html", "text"]),
+          content: z.string(),
+        },
         annotations: {
           readOnlyHint: true,
           destructiveHint: false,
@@ -178,15 +315,16 @@ export function registerCoreApiTools(
           openWorldHint: true,
         },
       },
-      async ({ mod_id, format }) => {
+      withRetryReport(async ({ mod_id, format }) => {
         try {
-          const html = await client.getModDescription(mod_id);
-          const text = format === "html" ? html : stripHtml(html);
-          return success(truncate(text));
+          const modId = await resolver.resolve(mod_id);
+          const html = await client.getModDescription(modId);
+          const text = truncate(format === "html" ? html : stripHtml(html));
+          return success(text, { modId, format, content: text });
         } catch (e) {
           return error(`get_mod_description: ${e instanceof Error ? e.message : String(e)}`);
         }
-      },
+      }),
     );
 
     server.registerTool(
@@ -195,10 +333,16 @@ export function registerCoreApiTools(
         title: "Get File Changelog",
         description: "Get changelog for a specific mod file release.",
         inputSchema: {
-          mod_id: z.number(),
-          file_id: z.number(),
+          mod_id: modRefSchema,
+          file_id: z.number().optional().describe("File ID — optional when mod_id is a file URL"),
           format: z.enum(["html", "text"]).optional().default("text"),
         },
+        outputSchema: {
+          modId: z.number(),
+          fileId: z.number(),
+          format: z.enum(["html", "text"]),
+          content: z.string(),
+        },
         annotations: {
           readOnlyHint: true,
           destructiveHint: false,
@@ -206,15 +350,126 @@ export function registerCoreApiTools(
           openWorldHint: true,
         },
       },
-      async ({ mod_id, file_id, format }) => {
+      withRetryReport(async ({ mod_id, file_id, format }) => {
         try {
-          const html = await client.getModFileChangelog(mod_id, file_id);
-          const text = format === "html" ? html : stripHtml(html);
-          return success(truncate(text));
+          const { modId, fileId } = await resolver.resolveFile(mod_id, file_id);
+          const html = await client.getModFileChangelog(modId, fileId);
+          const text = truncate(format === "html" ? html : stripHtml(html));
+          return success(text, { modId, fileId, format, content: text });
         } catch (e) {
           return error(`get_mod_changelog: ${e instanceof Error ? e.message : String(e)}`);
         }
+      }),
+    );
+
+    server.registerTool(
+      "get_changelog_range",
+      {
+        title: "Changelog Between Files",
+        description:
+          "Merged changelog of every file released after from_file_id up to to_file_id (or the latest file for a game version/loader), oldest first, with a header per file. Set game_version/mod_loader_type to stay on one version branch.",
+        inputSchema: {
+          mod_id: modRefSchema,
+          from_file_id: z.number().describe("File you have now — its own changelog is excluded unless include_from"),
+          to_file_id: z.union([z.number(), z.literal("latest")]).optional().default("latest"),
+          game_version: z.string().optional().describe("Only files for this game version, e.g. '1.20.1'"),
+          mod_loader_type: z.number().optional().describe("0=Any,1=Forge,4=Fabric,5=Quilt,6=NeoForge"),
+          release_channel: z.enum(["release", "beta", "alpha"]).optional().default("alpha").describe("Least stable release type included"),
+          include_from: z.boolean().optional().default(false),
+          max_files: z.number().int().min(1).max(200).optional().default(50).describe("Newest N files kept when the range is larger"),
+        },
+        outputSchema: {
+          modId: z.number(),
+          fromFileId: z.number(),
+          toFileId: z.number(),
+          omitted: z.number().describe("Older files in range dropped by max_files"),
+          truncated: z.boolean().describe("Changelogs were cut to stay within the output size limit"),
+          entries: z.array(
+            z.object({
+              fileId: z.number(),
+              displayName: z.string(),
+              releaseType: z.string(),
+              fileDate: z.string().optional(),
+              changelog: z.string(),
+            }),
+          ),
+        },
+        annotations: {
+          readOnlyHint: true,
+          destructiveHint: false,
+          idempotentHint: true,
+          openWorldHint: true,
+        },
       },
+      withRetryReport(async (params) => {
+        try {
+          const modId = await resolver.resolve(params.mod_id);
+          const filter = {
+            gameVersion: params.game_version,
+            modLoaderType: params.mod_loader_type,
+            channel: params.release_channel,
+          };
+          const from: any = await client.getModFile(modId, params.from_file_id);
+          const to: any =
+            params.to_file_id === "latest"
+              ? await findNewestFile(client, modId, filter)
+              : await client.getModFile(modId, params.to_file_id);
+          if (!to) return error("get_changelog_range: no file matches the game version/loader/channel filter");
+          if (fileTime(to) < fileTime(from)) {
+            return error(`get_changelog_range: file ${to.id} is older than ${from.id} — swap from_file_id and to_file_id`);
+          }
+
+          const start = fileTime(from);
+          const end = fileTime(to);
+          const inRange = (await fetchAllModFiles(client, modId, filter)).filter((f) => {
+            const t = fileTime(f);
+            return f.id !== from.id && f.id !== to.id && t > start && t < end;
+          });
+          const files = [...(params.include_from ? [from] : []), ...inRange, ...(to.id !== from.id ? [to] : [])].sort(
+            (a, b) => fileTime(a) - fileTime(b),
+          );
+          const omitted = Math.max(0, files.length - params.max_files);
+          const kept = files.slice(omitted);
+
+          const entries = await mapWithConcurrency(kept, CHANGELOG_CONCURRENCY, async (f: any) => {
+            let changelog: string;
+            try {
+              changelog = stripHtml(await client.getModFileChangelog(modId, f.id)).trim() || "(empty changelog)";
+            } catch (e) {
+              changelog = `(changelog unavailable: ${e instanceof Error ? e.message : String(e)})`;
+            }
+            return {
+              fileId: f.id as number,
+              displayName: (f.displayName || f.fileName) as string,
+              releaseType: RELEASE_LABELS[f.releaseType] || String(f.releaseType),
+              fileDate: f.fileDate ? new Date(f.fileDate).toISOString() : undefined,
+              changelog,
+            };
+          });
+
+          const sections = entries.map(
+            (e) => `## [${e.fileId}] ${e.displayName} — ${e.releaseType}${e.fileDate ? ` — ${e.fileDate.slice(0, 10)}` : ""}\n\n${e.changelog}`,
+          );
+          const header = `Changelog ${from.displayName || from.id} → ${to.displayName || to.id}: ${entries.length} files${omitted ? ` (${omitted} older files omitted, raise max_files)` : ""}`;
+          // Same budget as the text output, shared across the entries oldest first
+          let budget = CHANGELOG_RANGE_LIMIT;
+          const limited = entries.map((e) => {
+            const changelog = budget > 0 ? truncate(e.changelog, budget) : "... [truncated]";
+            budget -= e.changelog.length;
+            return { ...e, changelog };
+          });
+          return success(truncate(`${header}\n\n${sections.join("\n\n")}`, CHANGELOG_RANGE_LIMIT), {
+            modId,
+            fromFileId: from.id,
+            toFileId: to.id,
+            omitted,
+            truncated: budget < 0,
+            entries: limited,
+          });
+        } catch (e) {
+          return error(`get_changelog_range: ${e instanceof Error ? e.message : String(e)}`);
+        }
+      }),
     );
 
     server.registerTool(
@@ -223,8 +478,13 @@ export function registerCoreApiTools(
         title: "Get Download URL",
         description: "Get direct download URL for a mod file.",
         inputSchema: {
-          mod_id: z.number(),
-          file_id: z.number(),
+          mod_id: modRefSchema,
+          file_id: z.number().optional().describe("File ID — optional when mod_id is a file URL"),
+        },
+        outputSchema: {
+          modId: z.number(),
+          fileId: z.number(),
+          url: z.string(),
         },
         annotations: {
           readOnlyHint: true,
@@ -233,14 +493,15 @@ export function registerCoreApiTools(
           openWorldHint: true,
         },
       },
-      async ({ mod_id, file_id }) => {
+      withRetryReport(async ({ mod_id, file_id }) => {
         try {
-          const url = await client.getModFileDownloadURL(mod_id, file_id);
-          return success(url);
+          const { modId, fileId } = await resolver.resolveFile(mod_id, file_id);
+          const url = await client.getModFileDownloadURL(modId, fileId);
+          return success(url, { modId, fileId, url });
         } catch (e) {
           return error(`get_download_url: ${e instanceof Error ? e.message : String(e)}`);
         }
-      },
+      }),
     );
 
     server.registerTool(
@@ -248,12 +509,20 @@ export function registerCoreApiTools(
       {
         title: "Download Mod File",
         description:
-          "Download a mod file to a local directory. Works with any CurseForge game (Minecraft, Hytale, WoW, etc.). Streams large files efficiently.",
+          "Download a mod file to a local directory. Works with any CurseForge game (Minecraft, Hytale, WoW, etc.). Streams to a temp file, resumes interrupted downloads, verifies size and sha1/md5, and skips files that are already present and identical.",
         inputSchema: {
-          mod_id: z.number().describe("CurseForge mod/project ID"),
-          file_id: z.number().describe("File ID to download"),
+          mod_id: modRefSchema,
+          file_id: z.number().optional().describe("File ID to download — optional when mod_id is a file URL"),
           destination: z.string().describe("Absolute path to directory where the file will be saved"),
         },
+        outputSchema: {
+          path: z.string(),
+          fileName: z.string(),
+          size: z.number(),
+          skipped: z.boolean().describe("File was already present and identical"),
+          resumedFrom: z.number().describe("Bytes reused from an earlier partial download"),
+          hash: z.object({ algo: z.enum(["sha1", "md5"]), value: z.string() }).optional(),
+        },
         annotations: {
           readOnlyHint: false,
           destructiveHint: false,
@@ -261,11 +530,12 @@ export function registerCoreApiTools(
           openWorldHint: true,
         },
       },
-      async ({ mod_id, file_id, destination }) => {
+      withRetryReport(async ({ mod_id, file_id, destination }) => {
         try {
-          const file = await client.getModFile(mod_id, file_id);
-          const downloadUrl: string | null = (file as any).downloadUrl ?? null;
-          const fileName: string = (file as any).fileName ?? `${mod_id}-${file_id}`;
+          const { modId, fileId } = await resolver.resolveFile(mod_id, file_id);
+          const file = await client.getModFile(modId, fileId);
+          const downloadUrl: string | null = file.downloadUrl ?? null;
+          const fileName: string = file.fileName ?? `${modId}-${fileId}`;
 
           if (!downloadUrl) {
             return error(
@@ -273,29 +543,193 @@ export function registerCoreApiTools(
             );
           }
 
-          await mkdir(destination, { recursive: true });
-          const filePath = join(destination, fileName);
+          // Rejected names surface as download_mod errors through the catch below
+          const filePath = safeJoin(destination, fileName);
+          const result = await downloadToFile(downloadUrl, filePath, {
+            size: file.fileLength,
+            hashes: file.hashes,
+          });
+          const sizeMB = (result.size / 1024 / 1024).toFixed(1);
 
-          const response = await fetch(downloadUrl);
-          if (!response.ok) {
-            return error(`HTTP ${response.status} ${response.statusText} downloading ${fileName}`);
-          }
-          if (!response.body) {
-            return error("No response body received from download server");
+          const lines = [
+            `${result.skipped ? "Already present" : "Downloaded"}: ${fileName}`,
+            `Path: ${filePath}`,
+            `Size: ${sizeMB} MB`,
+          ];
+          if (result.resumedFrom > 0) lines.push(`Resumed from: ${(result.resumedFrom / 1024 / 1024).toFixed(1)} MB`);
+          if (result.hash) {
+            lines.push(`Verified ${result.hash.algo}: ${result.hash.value}`);
+          } else {
+            lines.push(file.fileLength ? "Verified: size only (no hash provided)" : "Not verified (no size or hash provided)");
           }
+          return success(lines.join("\n"), {
+            path: filePath,
+            fileName,
+            size: result.size,
+            skipped: result.skipped,
+            resumedFrom: result.resumedFrom,
+            hash: result.hash,
+          });
+        } catch (e) {
+          return error(`download_mod: ${e instanceof Error ? e.message : String(e)}`);
+        }
+      }),
+    );
+
+    server.registerTool(
+      "download_mods_batch",
+      {
+        title: "Batch Download Mod Files",
+        description:
+          "Download many mod files concurrently (e.g. the plan from resolve_dependencies or resolve_modpack). Emits MCP progress notifications per file and for overall bytes, retries failures, skips restricted-distribution files, and returns a summary table.",
+        inputSchema: {
+          files: z
+            .array(z.object({ mod_id: modRefSchema, file_id: z.number() }))
+            .describe("Mod/file pairs to download"),
+          destination: z.string().describe("Absolute path to directory where files will be saved"),
+          concurrency: z.number().int().min(1).max(16).optional().default(4),
+          retries: z.number().int().min(0).max(10).optional().default(2).describe("Retries per file after the first attempt"),
+        },
+        outputSchema: {
+          destination: z.string(),
+          downloaded: z.number(),
+          present: z.number(),
+          restricted: z.number(),
+          failed: z.number(),
+          totalBytes: z.number(),
+          results: z.array(
+            z.object({
+              modId: z.number(),
+              fileId: z.number(),
+              modName: z.string(),
+              fileName: z.string(),
+              status: z.enum(["ok", "present", "restricted", "failed"]),
+              error: z.string().optional(),
+              size: z.number(),
+              attempts: z.number(),
+            }),
+          ),
+        },
+        annotations: {
+          readOnlyHint: false,
+          destructiveHint: false,
+          idempotentHint: true,
+          openWorldHint: true,
+        },
+      },
+      withRetryReport(async ({ files, destination, concurrency, retries }, extra) => {
+        try {
+          const progressToken = extra._meta?.progressToken;
+          let totalBytes = 0;
+          let doneBytes = 0;
+          // Bytes of the current attempt per file in progress, so a retry or resume never counts twice
+          const inFlight = new Map<number, number>();
+          const progressBytes = () => doneBytes + [...inFlight.values()].reduce((sum, b) => sum + b, 0);
+          let doneFiles = 0;
+          let lastSent = 0;
+          const notify = async (message: string, force: boolean) => {
+            if (progressToken === undefined) return;
+            const now = Date.now();
+            if (!force && now - lastSent < PROGRESS_INTERVAL_MS) return;
+            lastSent = now;
+            await extra
+              .sendNotification({
+                method: "notifications/progress",
+                params: { progressToken, progress: Math.min(progressBytes(), totalBytes), total: totalBytes, message },
+              })
+              .catch(() => {});
+          };
 
-          const nodeStream = Readable.fromWeb(response.body as any);
-          const fileStream = createWriteStream(filePath);
-          await pipeline(nodeStream, fileStream);
+          const resolved = await mapWithConcurrency(files, concurrency, async (f) => {
+            let modId = typeof f.mod_id === "number" ? f.mod_id : 0;
+            try {
+              modId = await resolver.resolve(f.mod_id);
+              return { ref: String(f.mod_id), modId, fileId: f.file_id, file: (await client.getModFile(modId, f.file_id)) as any, lookupError: "" };
+            } catch (e) {
+              return { ref: String(f.mod_id), modId, fileId: f.file_id, file: null, lookupError: e instanceof Error ? e.message : String(e) };
+            }
+          });
+          totalBytes = resolved.reduce((sum, r) => sum + (r.file?.downloadUrl ? r.file.fileLength || 0 : 0), 0);
+          const mods = await fetchModsById(client, resolved.map((r) => r.modId).filter(Boolean));
 
-          const stats = await stat(filePath);
-          const sizeMB = (stats.size / 1024 / 1024).toFixed(1);
+          const rows = await mapWithConcurrency(resolved, concurrency, async (r, index) => {
+            const name = mods.get(r.modId)?.name ?? r.ref;
+            const row = { modId: r.modId, fileId: r.fileId, name, fileName: r.file?.fileName ?? String(r.fileId), result: "", size: 0, attempts: 0 };
+            if (!r.file) {
+              row.result = `failed: ${r.lookupError}`;
+            } else if (!r.file.downloadUrl) {
+              row.result = "restricted";
+            } else {
+              let target: string | undefined;
+              try {
+                target = safeJoin(destination, r.file.fileName);
+              } catch (e) {
+                // Deterministic — fail this row without retrying
+                row.result = `failed: ${e instanceof Error ? e.message : String(e)}`;
+              }
+              for (let attempt = 1; target && attempt <= retries + 1; attempt++) {
+                row.attempts = attempt;
+                inFlight.set(index, 0);
+                try {
+                  const res = await downloadToFile(
+                    r.file.downloadUrl,
+                    target,
+                    { size: r.file.fileLength, hashes: r.file.hashes },
+                    (bytes) => {
+                      inFlight.set(index, (inFlight.get(index) ?? 0) + bytes);
+                      void notify(`${doneFiles}/${files.length} files — ${r.file.fileName}`, false);
+                    },
+                  );
+                  doneBytes += res.size;
+                  row.result = res.skipped ? "present" : "ok";
+                  row.size = res.size;
+                  break;
+                } catch (e) {
+                  row.result = `failed: ${e instanceof Error ? e.message : String(e)}`;
+                  if (attempt <= retries) await new Promise((done) => setTimeout(done, RETRY_BASE_MS * 2 ** (attempt - 1)));
+                }
+              }
+            }
+            inFlight.delete(index);
+            doneFiles++;
+            await notify(`${doneFiles}/${files.length} files — ${row.fileName}: ${row.result.split(":")[0]}`, true);
+            return row;
+          });
 
-          return success(`Downloaded: ${fileName}\nPath: ${filePath}\nSize: ${sizeMB} MB`);
+          const count = (prefix: string) => rows.filter((r) => r.result.startsWith(prefix)).length;
+          const bytes = rows.reduce((sum, r) => sum + r.size, 0);
+          const lines = [
+            `Batch download to ${destination}: ${count("ok")} downloaded, ${count("present")} already present, ${count("restricted")} restricted, ${count("failed")} failed | ${fmtSize(bytes)}`,
+            "",
+            "| Mod | File | Result | Size | Attempts |",
+            "|-----|------|--------|------|----------|",
+            ...rows.map((r) => `| ${r.name} | ${r.fileName} | ${r.result} | ${r.size ? fmtSize(r.size) : "-"} | ${r.attempts || "-"} |`),
+          ];
+          return success(lines.join("\n"), {
+            destination,
+            downloaded: count("ok"),
+            present: count("present"),
+            restricted: count("restricted"),
+            failed: count("failed"),
+            totalBytes: bytes,
+            results: rows.map((r) => {
+              const [status, ...reason] = r.result.split(": ");
+              return {
+                modId: r.modId,
+                fileId: r.fileId,
+                modName: r.name,
+                fileName: r.fileName,
+                status: status as "ok" | "present" | "restricted" | "failed",
+                error: reason.length ? reason.join(": ") : undefined,
+                size: r.size,
+                attempts: r.attempts,
+              };
+            }),
+          });
         } catch (e) {
-          return error(`download_mod: ${e instanceof Error ? e.message : String(e)}`);
+          return error(`download_mods_batch: ${e instanceof Error ? e.message : String(e)}`);
         }
-      },
+      }),
     );
 
     server.registerTool(
@@ -306,6 +740,11 @@ export function registerCoreApiTools(
         inputSchema: {
           game_id: z.number().default(432).describe("Game ID"),
         },
+        outputSchema: {
+          featured: z.array(modSchema),
+          popular: z.array(modSchema),
+          recentlyUpdated: z.array(modSchema),
+        },
         annotations: {
           readOnlyHint: true,
           destructiveHint: false,
@@ -313,7 +752,7 @@ export function registerCoreApiTools(
           openWorldHint: true,
         },
       },
-      async ({ game_id }) => {
+      withRetryReport(async ({ game_id }) => {
         try {
           const result = await client.getFeaturedMods(game_id);
           const sections: string[] = [];
@@ -326,11 +765,15 @@ export function registerCoreApiTools(
           if (result.recentlyUpdated?.length) {
             sections.push("Recently Updated:\n" + result.recentlyUpdated.map((m: any) => formatMod(m)).join("\n\n"));
           }
-          return success(sections.join("\n\n---\n\n") || "No featured mods found.");
+          return success(sections.join("\n\n---\n\n") || "No featured mods found.", {
+            featured: (result.featured ?? []).map(toModSummary),
+            popular: (result.popular ?? []).map(toModSummary),
+            recentlyUpdated: (result.recentlyUpdated ?? []).map(toModSummary),
+          });
         } catch (e) {
           return error(`get_featured_mods: ${e instanceof Error ? e.message : String(e)}`);
         }
-      },
+      }),
     );
 
     server.registerTool(
@@ -339,8 +782,9 @@ export function registerCoreApiTools(
         title: "Get Multiple Mods",
         description: "Fetch multiple mods by ID in one request. More efficient than multiple get_mod calls.",
         inputSchema: {
-          mod_ids: z.array(z.number()).describe("Array of mod IDs"),
+          mod_ids: z.array(modRefSchema).describe("Mod IDs, slugs or URLs"),
         },
+        outputSchema: { mods: z.array(modSchema) },
         annotations: {
           readOnlyHint: true,
           destructiveHint: false,
@@ -348,15 +792,15 @@ export function registerCoreApiTools(
           openWorldHint: true,
         },
       },
-      async ({ mod_ids }) => {
+      withRetryReport(async ({ mod_ids }) => {
         try {
-          const mods = await client.getMods(mod_ids);
+          const mods = await client.getMods(await resolver.resolveMany(mod_ids));
           const lines = mods.map((m: any) => formatMod(m));
-          return success(`${mods.length} mods:\n\n${lines.join("\n\n")}`);
+          return success(`${mods.length} mods:\n\n${lines.join("\n\n")}`, { mods: mods.map(toModSummary) });
         } catch (e) {
           return error(`get_mods_batch: ${e instanceof Error ? e.message : String(e)}`);
         }
-      },
+      }),
     );
 
     server.registerTool(
@@ -368,6 +812,7 @@ export function registerCoreApiTools(
           game_id: z.number().default(432),
           class_id: z.number().optional(),
         },
+        outputSchema: { categories: z.array(categorySchema) },
         annotations: {
           readOnlyHint: true,
           destructiveHint: false,
@@ -375,15 +820,79 @@ export function registerCoreApiTools(
           openWorldHint: true,
         },
       },
-      async ({ game_id, class_id }) => {
+      withRetryReport(async ({ game_id, class_id }) => {
         try {
           const categories = await client.getCategories(game_id, class_id);
           const lines = categories.map((c: any) => formatCategory(c));
-          return success(`${categories.length} categories:\n${lines.join("\n")}`);
+          return success(`${categories.length} categories:\n${lines.join("\n")}`, { categories: categories.map(toCategory) });
         } catch (e) {
           return error(`get_categories: ${e instanceof Error ? e.message : String(e)}`);
         }
+      }),
+    );
+
+    server.registerTool(
+      "get_category_tree",
+      {
+        title: "Category Tree / Lookup",
+        description:
+          "Browse a game's classes (e.g. Mods, Modpacks, Resource Packs) and their categories/subcategories as a tree, or look up a class or category by name/slug to get the class_id/category_id for search_mods.",
+        inputSchema: {
+          game_id: z.number().default(432).describe("Game ID (432=Minecraft)"),
+          class_id: z.number().optional().describe("Only show this class (or category) subtree"),
+          query: z.string().optional().describe("Name or slug to look up, e.g. 'technology' or 'world-gen'"),
+          format: z.enum(["tree", "json"]).optional().default("tree"),
+        },
+        outputSchema: {
+          nodes: z.array(categoryNodeSchema).describe("Every node in the (sub)tree, depth-first"),
+          matches: z
+            .array(
+              categoryNodeSchema.extend({
+                search: z.object({ class_id: z.number().optional(), category_id: z.number().optional() }),
+              }),
+            )
+            .describe("Lookup results for query, with the matching search_mods parameters"),
+        },
+        annotations: {
+          readOnlyHint: true,
+          destructiveHint: false,
+          idempotentHint: true,
+          openWorldHint: true,
+        },
       },
+      withRetryReport(async ({ game_id, class_id, query, format }) => {
+        try {
+          let roots = buildCategoryTree(await client.getCategories(game_id));
+          if (class_id !== undefined) {
+            const root = flattenTree(roots).find((n) => n.id === class_id);
+            if (!root) return error(`get_category_tree: no class or category ${class_id} in game ${game_id}`);
+            roots = [root];
+          }
+          const nodes = flattenTree(roots);
+          const matches = query ? findCategories(roots, query) : [];
+          const structured = {
+            nodes: nodes.map(toCategoryNode),
+            matches: matches.map((n) => ({ ...toCategoryNode(n), search: searchParamsFor(n) })),
+          };
+
+          if (query) {
+            if (!matches.length) return success(`No class or category matching "${query}".`, structured);
+            const lines = matches.map((n) => {
+              const params = Object.entries(searchParamsFor(n)).map(([k, v]) => `${k}=${v}`).join(" ");
+              return `[${n.id}] ${n.name} (${n.slug}) — ${n.path.join(" › ")}\n  search_mods: ${params}`;
+            });
+            return success(`${matches.length} matches for "${query}":\n${lines.join("\n")}`, structured);
+          }
+          if (format === "json") {
+            const strip = (n: CategoryNode): unknown => ({ id: n.id, name: n.name, slug: n.slug, isClass: n.isClass, children: n.children.map(strip) });
+            return success(compact(roots.map(strip)), structured);
+          }
+          const classes = nodes.filter((n) => n.isClass).length;
+          return success(`${classes} classes, ${nodes.length - classes} categories:\n${formatCategoryTree(roots)}`, structured);
+        } catch (e) {
+          return error(`get_category_tree: ${e instanceof Error ? e.message : String(e)}`);
+        }
+      }),
     );
 
     server.registerTool(
@@ -394,6 +903,10 @@ export function registerCoreApiTools(
         inputSchema: {
           game_id: z.number().optional().describe("Specific game ID, or omit for all games"),
         },
+        outputSchema: {
+          games: z.array(gameSchema).optional().describe("All games, when game_id is omitted"),
+          game: z.record(z.string(), z.unknown()).optional().describe("Full game record, when game_id is given"),
+        },
         annotations: {
           readOnlyHint: true,
           destructiveHint: false,
@@ -401,19 +914,19 @@ export function registerCoreApiTools(
           openWorldHint: true,
         },
       },
-      async ({ game_id }) => {
+      withRetryReport(async ({ game_id }) => {
         try {
           if (game_id !== undefined) {
             const game = await client.getGame(game_id);
-            return success(compact(game));
+            return success(compact(game), { game: JSON.parse(compact(game)) });
           }
           const games = await client.getGames();
           const lines = games.data.map((g: any) => formatGame(g));
-          return success(`${games.data.length} games:\n${lines.join("\n")}`);
+          return success(`${games.data.length} games:\n${lines.join("\n")}`, { games: games.data.map(toGame) });
         } catch (e) {
           return error(`get_game_versions: ${e instanceof Error ? e.message : String(e)}`);
         }
-      },
+      }),
     );
   }
 
@@ -424,10 +937,11 @@ export function registerCoreApiTools(
     {
       title: "Get Project (no API key)",
       description:
-        'Get CurseForge project info by numeric ID or path (e.g. "238222" or "minecraft/mc-mods/jei"). Works without API key via CFWidget.',
+        'Get CurseForge project info by numeric ID, slug, URL or path (e.g. "238222" or "minecraft/mc-mods/jei"). Works without API key via CFWidget.',
       inputSchema: {
-        project: z.string().describe('Project ID or path, e.g. "238222" or "minecraft/mc-mods/jei"'),
+        project: z.string().describe('Project ID, slug, curseforge.com URL or path, e.g. "238222" or "minecraft/mc-mods/jei"'),
       },
+      outputSchema: { project: projectSchema },
       annotations: {
         readOnlyHint: true,
         destructiveHint: false,
@@ -435,14 +949,14 @@ export function registerCoreApiTools(
         openWorldHint: true,
       },
     },
-    async ({ project }) => {
+    withRetryReport(async ({ project }) => {
       try {
-        const data = await cfwidget.getProject(project);
-        return success(formatProject(data));
+        const data = await resolver.getCfWidgetProject(project);
+        return success(formatProject(data), { project: toProject(data) });
       } catch (e) {
         return error(`get_project: ${e instanceof Error ? e.message : String(e)}`);
       }
-    },
+    }),
   );
 
   server.registerTool(
@@ -454,6 +968,10 @@ export function registerCoreApiTools(
       inputSchema: {
         username: z.string().describe("Author username to search"),
       },
+      outputSchema: {
+        author: z.object({ id: z.number(), username: z.string() }),
+        projects: z.array(z.object({ id: z.number(), name: z.string() })),
+      },
       annotations: {
         readOnlyHint: true,
         destructiveHint: false,
@@ -461,15 +979,18 @@ export function registerCoreApiTools(
         openWorldHint: true,
       },
     },
-    async ({ username }) => {
+    withRetryReport(async ({ username }) => {
       try {
         const data = await cfwidget.searchAuthor(username);
         const projects = data.projects || [];
         const lines = projects.map((p: any) => `[${p.id}] ${p.name}`);
-        return success(`Author: ${data.username} (ID: ${data.id})\nProjects (${projects.length}):\n${lines.join("\n")}`);
+        return success(`Author: ${data.username} (ID: ${data.id})\nProjects (${projects.length}):\n${lines.join("\n")}`, {
+          author: { id: data.id, username: data.username },
+          projects: projects.map((p: any) => ({ id: p.id, name: p.name })),
+        });
       } catch (e) {
         return error(`search_author: ${e instanceof Error ? e.message : String(e)}`);
       }
-    },
+    }),
   );
 }
@@ -0,0 +1,88 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod/v4";
+import type { CoreApiClient } from "../clients/curseforge-client.js";
+import type { ProjectResolver } from "../clients/project-resolver.js";
+import { MOD_LOADER_LABELS, RELEASE_LABELS } from "../utils/helpers.js";
+import { resolveDependencies } from "../utils/dependencies.js";
+import { fetchModsById } from "../utils/mod-files.js";
+import { modRefSchema } from "../utils/schemas.js";
+import { withRetryReport } from "../utils/request-policy.js";
+import { success, error } from "../utils/types.js";
+
+export function registerDependencyTools(
+  server: McpServer,
+  client: CoreApiClient,
+  resolver: ProjectResolver,
+): void {
+  server.registerTool(
+    "resolve_dependencies",
+    {
+      title: "Resolve Mod Dependencies",
+      description:
+        "Recursively resolve a mod's required (and optionally optional) dependencies for a game version and mod loader. Picks the newest compatible file for each mod, detects cycles, unresolvable dependencies and declared incompatibilities, and returns an install plan.",
+      inputSchema: {
+        mod_id: modRefSchema,
+        game_version: z.string().describe("e.g. '1.20.1'"),
+        mod_loader_type: z.number().describe("0=Any,1=Forge,4=Fabric,5=Quilt,6=NeoForge"),
+        include_optional: z.boolean().optional().default(false).describe("Also walk optional dependencies"),
+        release_channel: z.enum(["release", "beta", "alpha"]).optional().default("alpha").describe("Least stable release type accepted"),
+      },
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    withRetryReport(async ({ mod_id: ref, game_version, mod_loader_type, include_optional, release_channel }) => {
+      try {
+        const mod_id = await resolver.resolve(ref);
+        const plan = await resolveDependencies(client, mod_id, {
+          gameVersion: game_version,
+          modLoaderType: mod_loader_type,
+          channel: release_channel,
+          includeOptional: include_optional,
+        });
+
+        const ids = [
+          ...plan.entries.map((e) => e.modId),
+          ...plan.unresolved.map((u) => u.modId),
+          ...plan.conflicts.map((c) => c.incompatibleWith),
+        ];
+        const mods = await fetchModsById(client, ids);
+        const name = (id: number) => mods.get(id)?.name ?? `#${id}`;
+        const why = (reason: string, parentId?: number) =>
+          parentId === undefined ? reason : `${reason} by ${name(parentId)}`;
+
+        const loader = MOD_LOADER_LABELS[mod_loader_type] ?? mod_loader_type;
+        const lines: string[] = [];
+        lines.push(`Install plan for ${name(mod_id)} (${mod_id}) — ${game_version} / ${loader}, channel: ${release_channel} (${plan.entries.length} mods):`);
+        plan.entries.forEach((e, i) => {
+          const rt = RELEASE_LABELS[e.file.releaseType] || e.file.releaseType;
+          lines.push(`${i + 1}. [${e.modId}] ${name(e.modId)} → [${e.file.id}] ${e.file.fileName} (${rt}) — ${why(e.reason, e.parentId)}`);
+        });
+
+        if (plan.unresolved.length) {
+          lines.push("", "Unresolvable:");
+          for (const u of plan.unresolved) {
+            lines.push(`  [${u.modId}] ${name(u.modId)} — ${u.error} (${why(u.reason, u.parentId)})`);
+          }
+        }
+        if (plan.cycles.length) {
+          lines.push("", "Cycles:");
+          for (const c of plan.cycles) lines.push(`  ${c.map(name).join(" → ")}`);
+        }
+        if (plan.conflicts.length) {
+          lines.push("", "Incompatible:");
+          for (const c of plan.conflicts) {
+            lines.push(`  ${name(c.modId)} declares ${name(c.incompatibleWith)} incompatible`);
+          }
+        }
+
+        return success(lines.join("\n"));
+      } catch (e) {
+        return error(`resolve_dependencies: ${e instanceof Error ? e.message : String(e)}`);
+      }
+    }),
+  );
+}
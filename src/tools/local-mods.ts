@@ -0,0 +1,231 @@
+import { constants } from "node:fs";
+import { access, copyFile, mkdir, rename, unlink } from "node:fs/promises";
+import path from "node:path";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod/v4";
+import type { CoreApiClient } from "../clients/curseforge-client.js";
+import { downloadToFile } from "../utils/download.js";
+import { RELEASE_LABELS, releaseTypesFor, type ReleaseChannel } from "../utils/helpers.js";
+import { identifyLocalFiles, type LocalModFile } from "../utils/local-mods.js";
+import { safeJoin } from "../utils/modpack.js";
+import { fetchModsById, findNewestFile } from "../utils/mod-files.js";
+import { withRetryReport } from "../utils/request-policy.js";
+import { success, error } from "../utils/types.js";
+
+/** Newest file for the target from the mod's latestFilesIndexes, falling back to
+ *  paging getModFiles when the index has no entry for that version/loader. */
+async function findLatestFile(
+  client: CoreApiClient,
+  mod: any,
+  gameVersion: string,
+  modLoaderType: number | undefined,
+  channel: ReleaseChannel,
+): Promise<any | null> {
+  const allowed = releaseTypesFor(channel);
+  const candidates = (mod.latestFilesIndexes ?? []).filter(
+    (idx: any) =>
+      idx.gameVersion === gameVersion &&
+      allowed.includes(idx.releaseType) &&
+      (!modLoaderType || idx.modLoader === modLoaderType),
+  );
+  if (candidates.length) {
+    // File IDs are assigned sequentially, so the highest ID is the newest upload
+    const newest = candidates.reduce((a: any, b: any) => (b.fileId > a.fileId ? b : a));
+    return client.getModFile(mod.id, newest.fileId);
+  }
+  return findNewestFile(client, mod.id, { gameVersion, modLoaderType, channel });
+}
+
+/** Move a jar into the backup folder (copy it with `keep`). An earlier backup
+ *  with the same name is never replaced — the new one gets a numeric suffix —
+ *  and a cross-device move falls back to copy + unlink. */
+async function backupFile(source: string, backupDir: string, options: { keep?: boolean } = {}): Promise<string> {
+  const ext = path.extname(source);
+  const base = path.basename(source, ext);
+  for (let i = 0; ; i++) {
+    const target = path.join(backupDir, i ? `${base}.${i}${ext}` : `${base}${ext}`);
+    try {
+      await access(target);
+      continue;
+    } catch {
+      // Free name
+    }
+    if (!options.keep) {
+      try {
+        await rename(source, target);
+        return target;
+      } catch (e) {
+        if ((e as NodeJS.ErrnoException).code !== "EXDEV") throw e;
+      }
+    }
+    await copyFile(source, target, constants.COPYFILE_EXCL);
+    if (!options.keep) await unlink(source);
+    return target;
+  }
+}
+
+function changelogLink(mod: any, fileId: number): string {
+  return mod?.links?.websiteUrl ? `${mod.links.websiteUrl}/files/${fileId}` : `get_mod_changelog(${mod?.id}, ${fileId})`;
+}
+
+function formatMatch(f: LocalModFile, mods: Map<number, any>): string {
+  const name = f.modId !== undefined ? mods.get(f.modId)?.name ?? "?" : "?";
+  return `  ${f.fileName} → [${f.modId}] ${name} / [${f.file?.id}] ${f.file?.fileName ?? "?"}`;
+}
+
+export function registerLocalModTools(
+  server: McpServer,
+  client: CoreApiClient,
+): void {
+  server.registerTool(
+    "identify_mods",
+    {
+      title: "Identify Local Mod Files",
+      description:
+        "Fingerprint every file in a local directory (CurseForge Murmur2) and match them against CurseForge. Returns exact matches, partial matches and unknown files with project and file IDs.",
+      inputSchema: {
+        directory: z.string().describe("Absolute path to the directory to scan (e.g. a mods folder)"),
+        recursive: z.boolean().optional().default(false),
+        extensions: z.array(z.string()).optional().describe('Only scan these extensions, e.g. [".jar"]. Default: every file'),
+      },
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    withRetryReport(async ({ directory, recursive, extensions }) => {
+      try {
+        const files = await identifyLocalFiles(client, directory, { recursive, extensions });
+        const exact = files.filter((f) => f.match === "exact");
+        const partial = files.filter((f) => f.match === "partial");
+        const unknown = files.filter((f) => f.match === "unknown");
+        const mods = await fetchModsById(
+          client,
+          files.flatMap((f) => (f.modId !== undefined ? [f.modId] : [])),
+        );
+
+        const lines: string[] = [];
+        lines.push(`Scanned ${files.length} files: ${exact.length} exact, ${partial.length} partial, ${unknown.length} unknown`);
+        if (exact.length) lines.push("", "Exact matches:", ...exact.map((f) => formatMatch(f, mods)));
+        if (partial.length) lines.push("", "Partial matches:", ...partial.map((f) => formatMatch(f, mods)));
+        if (unknown.length) {
+          lines.push("", "Unknown:", ...unknown.map((f) => `  ${f.fileName} (fingerprint ${f.fingerprint})`));
+        }
+        return success(lines.join("\n"));
+      } catch (e) {
+        return error(`identify_mods: ${e instanceof Error ? e.message : String(e)}`);
+      }
+    }),
+  );
+
+  server.registerTool(
+    "check_updates",
+    {
+      title: "Check Mod Updates",
+      description:
+        "Scan a local mods folder, identify each jar by CurseForge fingerprint, and compare it against the newest file for a game version, mod loader and release channel. Lists up-to-date, outdated (with changelog link) and unknown jars. apply=true downloads replacements and moves old jars to a backup folder.",
+      inputSchema: {
+        directory: z.string().describe("Absolute path to the mods folder"),
+        game_version: z.string().describe("e.g. '1.20.1'"),
+        mod_loader_type: z.number().optional().describe("0=Any,1=Forge,4=Fabric,5=Quilt,6=NeoForge"),
+        release_channel: z.enum(["release", "beta", "alpha"]).optional().default("release").describe("Least stable release type accepted"),
+        apply: z.boolean().optional().default(false).describe("Download updates and move replaced jars to backup_dir"),
+        backup_dir: z.string().optional().describe("Where replaced jars go (default: <directory>-backup next to the mods folder)"),
+      },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+    },
+    withRetryReport(async ({ directory, game_version, mod_loader_type, release_channel, apply, backup_dir }) => {
+      try {
+        const files = await identifyLocalFiles(client, directory, { extensions: [".jar"] });
+        const known = files.filter((f) => f.modId !== undefined);
+        const unknown = files.filter((f) => f.modId === undefined);
+        const mods = await fetchModsById(client, known.map((f) => f.modId!));
+
+        const upToDate: string[] = [];
+        const noMatch: string[] = [];
+        const outdated: Array<{ local: LocalModFile; mod: any; latest: any }> = [];
+
+        for (const local of known) {
+          const mod = mods.get(local.modId!);
+          const name = mod?.name ?? `#${local.modId}`;
+          const latest = mod
+            ? await findLatestFile(client, mod, game_version, mod_loader_type, release_channel)
+            : null;
+          if (!latest) {
+            noMatch.push(`  ${local.fileName} (${name}) — no ${release_channel} file for ${game_version}`);
+          } else if (latest.id > local.file.id) {
+            outdated.push({ local, mod, latest });
+          } else {
+            upToDate.push(`  ${local.fileName} (${name})`);
+          }
+        }
+
+        const lines: string[] = [];
+        lines.push(
+          `${files.length} jars: ${upToDate.length} up-to-date, ${outdated.length} outdated, ${noMatch.length} without a matching file, ${unknown.length} unknown`,
+        );
+        if (outdated.length) {
+          lines.push("", "Outdated:");
+          for (const { local, mod, latest } of outdated) {
+            const rt = RELEASE_LABELS[latest.releaseType] || latest.releaseType;
+            lines.push(
+              `  ${mod.name}: [${local.file.id}] ${local.fileName} → [${latest.id}] ${latest.fileName} (${rt})\n    changelog: ${changelogLink(mod, latest.id)}`,
+            );
+          }
+        }
+        if (upToDate.length) lines.push("", "Up-to-date:", ...upToDate);
+        if (noMatch.length) lines.push("", "No matching file:", ...noMatch);
+        if (unknown.length) lines.push("", "Unknown:", ...unknown.map((f) => `  ${f.fileName}`));
+
+        if (apply && outdated.length) {
+          const backup = backup_dir ?? path.join(path.dirname(directory), `${path.basename(directory)}-backup`);
+          await mkdir(backup, { recursive: true });
+          const applied: string[] = [];
+          const failed: string[] = [];
+          for (const { local, latest } of outdated) {
+            if (!latest.downloadUrl) {
+              failed.push(`  ${latest.fileName}: restricted distribution, download manually`);
+              continue;
+            }
+            let sameName = false;
+            try {
+              const target = safeJoin(directory, latest.fileName);
+              sameName = target === path.resolve(local.path);
+              // The old jar stays in place until the new one has downloaded and verified
+              if (sameName) await backupFile(local.path, backup, { keep: true });
+              await downloadToFile(latest.downloadUrl, target, { size: latest.fileLength, hashes: latest.hashes });
+            } catch (e) {
+              failed.push(`  ${latest.fileName}: ${e instanceof Error ? e.message : String(e)}`);
+              continue;
+            }
+            if (sameName) {
+              applied.push(`  ${local.fileName} → ${latest.fileName}`);
+              continue;
+            }
+            try {
+              await backupFile(local.path, backup);
+              applied.push(`  ${local.fileName} → ${latest.fileName}`);
+            } catch (e) {
+              failed.push(
+                `  ${local.fileName}: ${latest.fileName} downloaded, but the old jar could not be moved to the backup folder (${e instanceof Error ? e.message : String(e)}) — remove it manually`,
+              );
+            }
+          }
+          lines.push("", `Applied ${applied.length}/${outdated.length} updates (old jars in ${backup}):`, ...applied);
+          if (failed.length) lines.push("Failed:", ...failed);
+        }
+
+        return success(lines.join("\n"));
+      } catch (e) {
+        return error(`check_updates: ${e instanceof Error ? e.message : String(e)}`);
+      }
+    }),
+  );
+}
@@ -0,0 +1,186 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod/v4";
+import type { CoreApiClient } from "../clients/curseforge-client.js";
+import { MOD_LOADER_LABELS } from "../utils/helpers.js";
+import { compareVersions } from "../utils/compatibility.js";
+import { withRetryReport } from "../utils/request-policy.js";
+import { success, error } from "../utils/types.js";
+
+/** Release versions are plain dotted numbers — everything else (24w14a, 1.21-pre1, 1.21-rc1) is a snapshot. */
+const STABLE_VERSION = /^\d+\.\d+(\.\d+)?$/;
+const LOADER_TYPES: Record<string, number> = { forge: 1, fabric: 4, quilt: 5, neoforge: 6 };
+
+function isStable(version: string): boolean {
+  return STABLE_VERSION.test(version);
+}
+
+function day(d: unknown): string {
+  return d ? new Date(d as string).toISOString().slice(0, 10) : "?";
+}
+
+export function registerMinecraftTools(
+  server: McpServer,
+  client: CoreApiClient,
+): void {
+  server.registerTool(
+    "get_minecraft_versions",
+    {
+      title: "Minecraft Versions",
+      description:
+        "List Minecraft versions known to CurseForge (stable, snapshot or all), or check one version string — use it to validate game_version before searching or uploading.",
+      inputSchema: {
+        version: z.string().optional().describe("Check one version, e.g. '1.20.1' — returns details or close matches"),
+        channel: z.enum(["stable", "snapshot", "all"]).optional().default("stable"),
+        prefix: z.string().optional().describe("Only versions starting with this, e.g. '1.20'"),
+        limit: z.number().int().min(1).optional().default(50),
+      },
+      outputSchema: {
+        valid: z.boolean().optional().describe("Whether `version` is a known Minecraft version"),
+        versions: z.array(
+          z.object({
+            versionString: z.string(),
+            gameVersionId: z.number(),
+            stable: z.boolean(),
+            approved: z.boolean(),
+            dateModified: z.string().optional(),
+          }),
+        ),
+      },
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    withRetryReport(async ({ version, channel, prefix, limit }) => {
+      try {
+        const toEntry = (v: any) => ({
+          versionString: v.versionString as string,
+          gameVersionId: v.gameVersionId as number,
+          stable: isStable(v.versionString),
+          approved: Boolean(v.approved),
+          dateModified: v.dateModified ? new Date(v.dateModified).toISOString() : undefined,
+        });
+
+        if (version) {
+          const all: any[] = await client.getMinecraftVersions();
+          const match = all.find((v) => v.versionString === version);
+          if (match) {
+            const v = toEntry(match);
+            return success(
+              `${v.versionString} is a known Minecraft version (${v.stable ? "stable" : "snapshot"}, game version ID ${v.gameVersionId}, updated ${day(v.dateModified)})`,
+              { valid: true, versions: [v] },
+            );
+          }
+          const stem = version.split(/[.\-]/).slice(0, 2).join(".");
+          const close = all.filter((v) => v.versionString.startsWith(stem)).slice(0, limit).map(toEntry);
+          const hint = close.length ? `\nClose matches: ${close.map((v) => v.versionString).join(", ")}` : "";
+          return success(`${version} is not a known Minecraft version.${hint}`, { valid: false, versions: close });
+        }
+
+        const versions = ((await client.getMinecraftVersions()) as any[])
+          .filter((v) => channel === "all" || isStable(v.versionString) === (channel === "stable"))
+          .filter((v) => !prefix || v.versionString.startsWith(prefix))
+          .map(toEntry);
+        const shown = versions.slice(0, limit);
+        const lines = shown.map((v) => `${v.versionString}${v.stable ? "" : " (snapshot)"} — id ${v.gameVersionId}, ${day(v.dateModified)}`);
+        return success(`${versions.length} ${channel} versions${versions.length > limit ? ` (showing ${limit})` : ""}:\n${lines.join("\n")}`, {
+          versions: shown,
+        });
+      } catch (e) {
+        return error(`get_minecraft_versions: ${e instanceof Error ? e.message : String(e)}`);
+      }
+    }),
+  );
+
+  server.registerTool(
+    "get_minecraft_modloaders",
+    {
+      title: "Minecraft Mod Loader Builds",
+      description:
+        "List Forge/NeoForge/Fabric/Quilt builds with their recommended and latest build per Minecraft version, or get details of one build (e.g. 'forge-47.2.0') including its installer download URL.",
+      inputSchema: {
+        name: z.string().optional().describe("Details of one build, e.g. 'forge-47.2.0' or 'neoforge-21.1.77'"),
+        game_version: z.string().optional().describe("Only builds for this Minecraft version"),
+        loader: z.enum(["forge", "neoforge", "fabric", "quilt"]).optional(),
+        only: z.enum(["recommended", "latest", "all"]).optional().default("all").describe("all = every build for game_version; without game_version only latest/recommended builds are listed"),
+        limit: z.number().int().min(1).optional().default(50),
+      },
+      outputSchema: {
+        loaders: z.array(
+          z.object({
+            name: z.string(),
+            gameVersion: z.string(),
+            loader: z.string(),
+            latest: z.boolean(),
+            recommended: z.boolean(),
+            dateModified: z.string().optional(),
+          }),
+        ),
+        build: z.record(z.string(), z.unknown()).optional().describe("Full build record, when name is given"),
+      },
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    withRetryReport(async ({ name, game_version, loader, only, limit }) => {
+      try {
+        if (name) {
+          const b: any = await client.getMinecraftModLoader(name);
+          const lines = [
+            `${b.name} — ${MOD_LOADER_LABELS[b.type] ?? b.type} for Minecraft ${b.minecraftVersion}`,
+            `version: ${b.forgeVersion ?? "?"} | maven: ${b.mavenVersionString ?? "?"}`,
+            `recommended: ${b.recommended ? "yes" : "no"} | latest: ${b.latest ? "yes" : "no"} | approved: ${b.approved ? "yes" : "no"}`,
+            `updated: ${day(b.dateModified)}`,
+          ];
+          if (b.downloadUrl) lines.push(`download: ${b.downloadUrl}${b.filename ? ` (${b.filename})` : ""}`);
+          const { versionJson, installProfileJson, additionalFilesJson, ...build } = b;
+          return success(lines.join("\n"), {
+            loaders: [
+              {
+                name: b.name,
+                gameVersion: b.minecraftVersion,
+                loader: MOD_LOADER_LABELS[b.type] ?? String(b.type),
+                latest: Boolean(b.latest),
+                recommended: Boolean(b.recommended),
+                dateModified: b.dateModified ? new Date(b.dateModified).toISOString() : undefined,
+              },
+            ],
+            build,
+          });
+        }
+
+        const type = loader ? LOADER_TYPES[loader] : undefined;
+        // includeAll across every game version returns thousands of builds
+        const includeAll = only === "all" && game_version !== undefined;
+        const entries = ((await client.getMinecraftModLoaders(game_version, includeAll)) as any[])
+          .filter((l) => type === undefined || l.type === type)
+          .filter((l) => only === "all" || (only === "recommended" ? l.recommended : l.latest))
+          .map((l) => ({
+            name: l.name as string,
+            gameVersion: l.gameVersion as string,
+            loader: MOD_LOADER_LABELS[l.type] ?? String(l.type),
+            latest: Boolean(l.latest),
+            recommended: Boolean(l.recommended),
+            dateModified: l.dateModified ? new Date(l.dateModified).toISOString() : undefined,
+          }))
+          .sort((a, b) => compareVersions(b.gameVersion, a.gameVersion) || (b.dateModified ?? "").localeCompare(a.dateModified ?? ""));
+
+        const shown = entries.slice(0, limit);
+        const lines = shown.map((l) => {
+          const tags = [l.recommended && "recommended", l.latest && "latest"].filter(Boolean).join(", ");
+          return `${l.gameVersion} | ${l.loader} | ${l.name}${tags ? ` (${tags})` : ""}`;
+        });
+        return success(`${entries.length} loader builds${entries.length > limit ? ` (showing ${limit})` : ""}:\n${lines.join("\n")}`, {
+          loaders: shown,
+        });
+      } catch (e) {
+        return error(`get_minecraft_modloaders: ${e instanceof Error ? e.message : String(e)}`);
+      }
+    }),
+  );
+}
@@ -0,0 +1,336 @@
+import { join } from "node:path";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod/v4";
+import type { CoreApiClient } from "../clients/curseforge-client.js";
+import type { CfWidgetClient } from "../clients/cfwidget-client.js";
+import type { ProjectResolver } from "../clients/project-resolver.js";
+import { chunk, fmtSize, mapWithConcurrency } from "../utils/helpers.js";
+import { downloadToFile } from "../utils/download.js";
+import { identifyLocalFiles } from "../utils/local-mods.js";
+import { fetchModsById } from "../utils/mod-files.js";
+import {
+  distributionEntry,
+  formatDistributionReport,
+  licenseName,
+  type DistributionEntry,
+} from "../utils/distribution.js";
+import {
+  loadModpack,
+  closeModpack,
+  resolveModpackFiles,
+  installFolder,
+  extractOverrides,
+  buildModlistHtml,
+  collectOverrides,
+  writeModpack,
+  safeJoin,
+  type ModpackOverride,
+  type ResolvedModpackFile,
+} from "../utils/modpack.js";
+import { modRefSchema } from "../utils/schemas.js";
+import { withRetryReport } from "../utils/request-policy.js";
+import { success, error } from "../utils/types.js";
+import type { ModpackManifest } from "../utils/types.js";
+
+const DOWNLOAD_CONCURRENCY = 4;
+/** CFWidget queues uncached projects, so license lookups stay gentle */
+const LICENSE_CONCURRENCY = 2;
+
+function formatResolvedEntry(r: ResolvedModpackFile): string {
+  const name = r.mod?.name ?? "?";
+  const tags: string[] = [];
+  if (!r.required) tags.push("OPTIONAL");
+  if (r.status !== "ok") tags.push(r.status.toUpperCase());
+  const suffix = tags.length ? ` [${tags.join(", ")}]` : "";
+  if (!r.file) {
+    return `[${r.projectId}/${r.fileId}] ${name}${suffix} — ${r.error ?? "unresolved"}`;
+  }
+  return `[${r.projectId}/${r.fileId}] ${name} — ${r.file.fileName} (${fmtSize(r.file.fileLength || 0)})${suffix}`;
+}
+
+export function registerModpackTools(
+  server: McpServer,
+  client: CoreApiClient,
+  cfwidget: CfWidgetClient,
+  resolver: ProjectResolver,
+): void {
+  server.registerTool(
+    "resolve_modpack",
+    {
+      title: "Resolve / Install Modpack",
+      description:
+        "Read a CurseForge modpack (.zip, manifest.json, or folder containing one), resolve every file entry in batches, and report names, sizes, missing/removed files and restricted downloads. mode=install also downloads all resolved files plus the overrides folder into destination.",
+      inputSchema: {
+        path: z.string().describe("Absolute path to a modpack .zip, a manifest.json, or a directory containing manifest.json"),
+        mode: z.enum(["resolve", "install"]).optional().default("resolve"),
+        destination: z.string().optional().describe("Instance directory for mode=install (mods go to mods/, resource packs to resourcepacks/, ...)"),
+        include_optional: z.boolean().optional().default(true).describe("Include entries marked required=false"),
+      },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    withRetryReport(async ({ path, mode, destination, include_optional }) => {
+      if (mode === "install" && !destination) {
+        return error("resolve_modpack: destination is required for mode=install");
+      }
+      let pack;
+      try {
+        pack = await loadModpack(path);
+      } catch (e) {
+        return error(`resolve_modpack: ${e instanceof Error ? e.message : String(e)}`);
+      }
+      try {
+        const { manifest } = pack;
+        const entries = include_optional ? manifest.files : manifest.files.filter((f) => f.required);
+        const resolved = await resolveModpackFiles(client, entries);
+
+        const count = (s: string) => resolved.filter((r) => r.status === s).length;
+        const totalSize = resolved.reduce((sum, r) => sum + (r.file?.fileLength || 0), 0);
+        const loaders = manifest.minecraft.modLoaders
+          .map((l) => `${l.id}${l.primary ? " (primary)" : ""}`)
+          .join(", ");
+
+        const lines: string[] = [];
+        lines.push(`Modpack: ${manifest.name || "?"} ${manifest.version || ""} by ${manifest.author || "?"}`.trim());
+        lines.push(`Minecraft ${manifest.minecraft.version || "?"} | loaders: ${loaders || "none"} | overrides: ${manifest.overrides}`);
+        lines.push(
+          `${resolved.length} files: ${count("ok")} ok, ${count("restricted")} restricted, ${count("missing")} missing, ${count("removed")} removed | total ${fmtSize(totalSize)}`,
+        );
+        lines.push("");
+        lines.push(...resolved.map(formatResolvedEntry));
+
+        const restricted = resolved.filter((r) => r.status === "restricted");
+        if (restricted.length) {
+          lines.push("", "Restricted (must be downloaded manually):");
+          for (const r of restricted) {
+            const site = r.mod?.links?.websiteUrl;
+            lines.push(`  ${r.mod?.name ?? r.projectId}: ${site ? `${site}/files/${r.fileId}` : `project ${r.projectId}, file ${r.fileId}`}`);
+          }
+        }
+
+        if (mode === "install" && destination) {
+          const downloadable = resolved.filter((r) => r.status === "ok");
+          const failures: string[] = [];
+          let downloaded = 0;
+          for (const batch of chunk(downloadable, DOWNLOAD_CONCURRENCY)) {
+            const results = await Promise.allSettled(
+              // async so a file name escaping destination becomes this entry's failure
+              batch.map(async (r) =>
+                downloadToFile(r.file.downloadUrl, safeJoin(destination, join(installFolder(r.mod), r.file.fileName)), {
+                  size: r.file.fileLength,
+                  hashes: r.file.hashes,
+                }),
+              ),
+            );
+            results.forEach((res, i) => {
+              if (res.status === "fulfilled") {
+                downloaded++;
+              } else {
+                const msg = res.reason instanceof Error ? res.reason.message : String(res.reason);
+                failures.push(`  ${batch[i].file.fileName}: ${msg}`);
+              }
+            });
+          }
+          const overrideCount = await extractOverrides(pack, destination);
+
+          lines.push("", `Installed to ${destination}: ${downloaded}/${downloadable.length} files downloaded, ${overrideCount} override files copied`);
+          if (failures.length) lines.push("Download failures:", ...failures);
+        }
+
+        return success(lines.join("\n"));
+      } catch (e) {
+        return error(`resolve_modpack: ${e instanceof Error ? e.message : String(e)}`);
+      } finally {
+        await closeModpack(pack);
+      }
+    }),
+  );
+
+  server.registerTool(
+    "export_modpack",
+    {
+      title: "Export Modpack",
+      description:
+        "Generate a CurseForge-compatible modpack zip (manifest.json, modlist.html, overrides/) from a list of mod/file IDs and/or a local folder of jars. Local jars are identified by fingerprint; unrecognized jars are packed into overrides/mods.",
+      inputSchema: {
+        output: z.string().describe("Absolute path of the .zip to write"),
+        name: z.string().describe("Modpack name"),
+        version: z.string().optional().default("1.0.0"),
+        author: z.string().optional().default(""),
+        game_version: z.string().describe("Minecraft version, e.g. '1.20.1'"),
+        mod_loaders: z.array(z.string()).optional().default([]).describe('Loader IDs, first is primary, e.g. ["forge-47.2.0"]'),
+        files: z
+          .array(
+            z.object({
+              mod_id: modRefSchema,
+              file_id: z.number(),
+              required: z.boolean().optional().default(true),
+            }),
+          )
+          .optional()
+          .describe("Mod/file ID pairs to include"),
+        mods_directory: z.string().optional().describe("Local folder of jars to identify and include"),
+        overrides_directory: z.string().optional().describe("Local folder copied into overrides/ (e.g. config, scripts)"),
+      },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    withRetryReport(async (params) => {
+      if (!params.files?.length && !params.mods_directory) {
+        return error("export_modpack: provide files and/or mods_directory");
+      }
+      try {
+        const entries: ModpackManifest["files"] = await Promise.all(
+          (params.files ?? []).map(async (f) => ({
+            projectID: await resolver.resolve(f.mod_id),
+            fileID: f.file_id,
+            required: f.required,
+          })),
+        );
+        const overrides: ModpackOverride[] = [];
+
+        if (params.mods_directory) {
+          const local = await identifyLocalFiles(client, params.mods_directory, { extensions: [".jar"] });
+          for (const f of local) {
+            if (f.match === "exact") {
+              entries.push({ projectID: f.modId!, fileID: f.file.id, required: true });
+            } else {
+              overrides.push({ source: f.path, target: `mods/${f.fileName}` });
+            }
+          }
+        }
+        if (params.overrides_directory) {
+          overrides.push(...(await collectOverrides(params.overrides_directory)));
+        }
+
+        const resolved = await resolveModpackFiles(client, entries);
+        // Unavailable files would make the exported pack fail to install
+        const included = resolved.filter((r) => r.status !== "missing" && r.status !== "removed");
+        const missing = resolved.filter((r) => r.status === "missing");
+        const removed = resolved.filter((r) => r.status === "removed");
+
+        const manifest: ModpackManifest = {
+          minecraft: {
+            version: params.game_version,
+            modLoaders: params.mod_loaders.map((id, i) => ({ id, primary: i === 0 })),
+          },
+          manifestType: "minecraftModpack",
+          manifestVersion: 1,
+          name: params.name,
+          version: params.version,
+          author: params.author,
+          files: included.map((r) => ({ projectID: r.projectId, fileID: r.fileId, required: r.required })),
+          overrides: "overrides",
+        };
+        await writeModpack(params.output, manifest, buildModlistHtml(included), overrides);
+
+        const lines: string[] = [];
+        lines.push(`Modpack written: ${params.output}`);
+        lines.push(`${manifest.files.length} files in manifest, ${overrides.length} override files`);
+        lines.push("", ...included.map(formatResolvedEntry));
+        const restricted = included.filter((r) => r.status === "restricted").length;
+        if (restricted) lines.push("", `${restricted} files have restricted distribution — players download them through the CurseForge app.`);
+        if (missing.length) lines.push("", "Skipped (not found):", ...missing.map((r) => `  ${formatResolvedEntry(r)}`));
+        if (removed.length) lines.push("", "Skipped (file unavailable — pick another file):", ...removed.map((r) => `  ${formatResolvedEntry(r)}`));
+        const localJars = overrides.filter((o) => o.target.startsWith("mods/"));
+        if (localJars.length) lines.push("", "Unrecognized jars packed as overrides:", ...localJars.map((o) => `  ${o.target}`));
+        return success(lines.join("\n"));
+      } catch (e) {
+        return error(`export_modpack: ${e instanceof Error ? e.message : String(e)}`);
+      }
+    }),
+  );
+
+  server.registerTool(
+    "check_distribution",
+    {
+      title: "Check Distribution Permissions",
+      description:
+        "Report which mods may be shipped inside a modpack and which players must download themselves (author disabled third-party distribution, or the file has no API download URL). Takes mod IDs, a modpack (.zip, manifest.json or folder) and/or a folder of jars. Lists project, source and issue links and, with include_license, the license from CFWidget. format=markdown gives a section for pack release notes.",
+      inputSchema: {
+        mod_ids: z.array(modRefSchema).optional().describe("Mod IDs, slugs or URLs"),
+        path: z.string().optional().describe("Absolute path to a modpack .zip, a manifest.json, or a directory containing manifest.json"),
+        mods_directory: z.string().optional().describe("Local folder of jars, identified by fingerprint"),
+        include_license: z.boolean().optional().default(false).describe("Look up each project's license on CFWidget (one request per mod)"),
+        format: z.enum(["markdown", "text"]).optional().default("markdown"),
+      },
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    withRetryReport(async ({ mod_ids, path, mods_directory, include_license, format }) => {
+      if (!mod_ids?.length && !path && !mods_directory) {
+        return error("check_distribution: provide mod_ids, path and/or mods_directory");
+      }
+      try {
+        const entries: DistributionEntry[] = [];
+        const seen = new Set<number>();
+        const add = (entry: DistributionEntry) => {
+          if (entry.modId !== undefined) {
+            if (seen.has(entry.modId)) return;
+            seen.add(entry.modId);
+          }
+          entries.push(entry);
+        };
+
+        if (path) {
+          const pack = await loadModpack(path);
+          try {
+            for (const r of await resolveModpackFiles(client, pack.manifest.files)) {
+              if (r.mod && r.file) add(distributionEntry(r.mod, r.file));
+              // A file that could not be looked up is not confirmed redistributable
+              else if (r.mod) add({ ...distributionEntry(r.mod), fileId: r.fileId, status: "unknown", reason: r.error ?? "file not found" });
+              else add({ name: `#${r.projectId}`, modId: r.projectId, fileId: r.fileId, status: "unknown", reason: r.error ?? "project not found" });
+            }
+          } finally {
+            await closeModpack(pack);
+          }
+        }
+
+        if (mods_directory) {
+          const local = await identifyLocalFiles(client, mods_directory, { extensions: [".jar"] });
+          const mods = await fetchModsById(client, local.filter((f) => f.modId).map((f) => f.modId!));
+          for (const f of local) {
+            const mod = f.modId ? mods.get(f.modId) : undefined;
+            if (mod) add(distributionEntry(mod, f.file));
+            else add({ name: f.fileName, fileName: f.fileName, status: "unknown", reason: "jar not recognised by fingerprint" });
+          }
+        }
+
+        if (mod_ids?.length) {
+          const ids = await resolver.resolveMany(mod_ids);
+          const mods = await fetchModsById(client, ids);
+          for (const id of ids) {
+            const mod = mods.get(id);
+            add(mod ? distributionEntry(mod) : { name: `#${id}`, modId: id, status: "unknown", reason: "project not found" });
+          }
+        }
+
+        if (include_license) {
+          await mapWithConcurrency(entries.filter((e) => e.modId !== undefined && e.status !== "unknown"), LICENSE_CONCURRENCY, async (e) => {
+            try {
+              e.license = licenseName(await cfwidget.getProject(String(e.modId)));
+            } catch {
+              // License is best-effort — CFWidget may not know the project yet
+            }
+          });
+        }
+
+        return success(formatDistributionReport(entries, format));
+      } catch (e) {
+        return error(`check_distribution: ${e instanceof Error ? e.message : String(e)}`);
+      }
+    }),
+  );
+}
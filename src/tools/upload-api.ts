@@ -1,50 +1,158 @@
+import { basename } from "node:path";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod/v4";
 import type { UploadApiClient } from "../clients/upload-client.js";
+import type { CoreApiClient } from "../clients/curseforge-client.js";
+import type { ProjectResolver } from "../clients/project-resolver.js";
+import { fmtSize } from "../utils/helpers.js";
+import { modRefSchema } from "../utils/schemas.js";
+import { checkUploadFile, checkChangelog, type UploadProblems } from "../utils/upload-validation.js";
+import { RELEASE_CONFIG_FILE, loadReleaseConfig, planRelease } from "../utils/release-config.js";
+import { withRetryReport } from "../utils/request-policy.js";
 import { success, error } from "../utils/types.js";
-import type { UploadMetadata } from "../utils/types.js";
+import type { ToolResult, UploadMetadata } from "../utils/types.js";
+
+const PROGRESS_INTERVAL_MS = 250;
+
+const changelogTypeSchema = z.enum(["text", "html", "markdown"]).optional().default("markdown");
+const gameVersionsSchema = z
+  .array(z.union([z.string(), z.number()]))
+  .optional()
+  .describe("Game versions by name or ID, e.g. [\"1.20.1\", \"Fabric\", \"Java 17\", \"Client\"]. Prefix with a version type slug (\"minecraft-1-20:1.20.1\") when a name is ambiguous. Optional for some games.");
+const gameVersionIdsSchema = z
+  .array(z.number())
+  .optional()
+  .describe("Game version IDs (from get_upload_game_versions) — merged with game_versions");
+const gameSlugSchema = z.string().optional().describe("Game slug selecting the upload host (defaults to CURSEFORGE_GAME_SLUG)");
+const releaseTypeSchema = z.enum(["alpha", "beta", "release"]).default("release");
+const relationsSchema = z
+  .array(
+    z.object({
+      slug: z.string(),
+      type: z.enum([
+        "embeddedLibrary",
+        "incompatible",
+        "optionalDependency",
+        "requiredDependency",
+        "tool",
+      ]),
+    }),
+  )
+  .optional()
+  .describe("Project dependencies/relations");
+
+interface ProgressExtra {
+  _meta?: { progressToken?: string | number };
+  sendNotification: (notification: any) => Promise<void>;
+}
+
+/** Throttled notifications/progress sender — a no-op when the client sent no progressToken. */
+function progressNotifier(extra: ProgressExtra) {
+  const progressToken = extra._meta?.progressToken;
+  let lastSent = 0;
+  return (progress: number, total: number, message: string) => {
+    if (progressToken === undefined) return;
+    const now = Date.now();
+    if (progress < total && now - lastSent < PROGRESS_INTERVAL_MS) return;
+    lastSent = now;
+    extra
+      .sendNotification({
+        method: "notifications/progress",
+        params: { progressToken, progress: Math.min(progress, total), total, message },
+      })
+      .catch(() => {});
+  };
+}
+
+function mb(bytes: number): string {
+  return (bytes / 1024 / 1024).toFixed(1);
+}
+
+interface UploadValidation extends UploadProblems {
+  size?: number;
+  metadata: UploadMetadata;
+}
+
+/** Dry run of an upload: everything CurseForge would reject, checked before any bytes are sent. */
+async function validateUpload(
+  client: UploadApiClient,
+  resolver: ProjectResolver,
+  core: CoreApiClient | null,
+  request: { projectId: number; filePath: string; metadata: UploadMetadata; gameVersions: Array<string | number>; gameSlug?: string },
+): Promise<UploadValidation> {
+  const problems: UploadProblems = { errors: [], warnings: [] };
+  const metadata: UploadMetadata = { ...request.metadata };
+  const game = client.game(request.gameSlug) || undefined;
+
+  const size = await checkUploadFile(request.filePath, problems);
+
+  try {
+    const ids = await client.resolveGameVersions(request.gameVersions, request.gameSlug);
+    if (ids.length) metadata.gameVersions = ids;
+  } catch (e) {
+    problems.errors.push(e instanceof Error ? e.message : String(e));
+  }
+
+  for (const r of metadata.relations?.projects ?? []) {
+    try {
+      await resolver.resolve(r.slug, game);
+    } catch (e) {
+      problems.errors.push(`relation "${r.slug}" (${r.type}): ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+
+  if (metadata.parentFileID !== undefined) {
+    if (!core) {
+      problems.warnings.push("parentFileID not checked — needs CURSEFORGE_API_KEY");
+    } else {
+      try {
+        const parent: any = await core.getModFile(request.projectId, metadata.parentFileID);
+        if (parent.modId !== request.projectId) {
+          problems.errors.push(`parent file ${metadata.parentFileID} belongs to project ${parent.modId}, not ${request.projectId}`);
+        }
+      } catch {
+        problems.errors.push(`parent file ${metadata.parentFileID} not found in project ${request.projectId}`);
+      }
+    }
+  }
+
+  checkChangelog(metadata.changelog, metadata.changelogType ?? "markdown", problems);
+  return { ...problems, size, metadata };
+}
 
 export function registerUploadApiTools(
   server: McpServer,
   client: UploadApiClient,
+  resolver: ProjectResolver,
+  core: CoreApiClient | null,
 ): void {
   server.registerTool(
     "upload_file",
     {
       title: "Upload Mod File",
       description:
-        "Upload a mod file to a CurseForge project. Requires CURSEFORGE_AUTHOR_TOKEN.",
+        "Upload a mod file to a CurseForge project. The file is streamed from disk with MCP progress notifications, so large modpacks are fine. Game versions can be given by name (e.g. '1.20.1', 'Fabric', 'Java 17', 'Client'). validate_only=true checks the file, game versions, relation slugs, parent file and changelog without uploading and returns the metadata JSON that would be sent. Requires CURSEFORGE_AUTHOR_TOKEN.",
       inputSchema: {
-        project_id: z.number().describe("CurseForge project ID"),
+        project_id: modRefSchema,
         file_path: z.string().describe("Absolute path to the file to upload"),
         changelog: z.string().optional().describe("Changelog text"),
-        changelog_type: z
-          .enum(["text", "html", "markdown"])
-          .optional()
-          .default("markdown"),
+        changelog_type: changelogTypeSchema,
         display_name: z.string().optional().describe("Display name for the file"),
-        game_version_ids: z
-          .array(z.number())
-          .optional()
-          .describe("Array of game version IDs (get from get_upload_game_versions). Optional for some games."),
-        release_type: z
-          .enum(["alpha", "beta", "release"])
-          .default("release"),
-        relations: z
-          .array(
-            z.object({
-              slug: z.string(),
-              type: z.enum([
-                "embeddedLibrary",
-                "incompatible",
-                "optionalDependency",
-                "requiredDependency",
-                "tool",
-              ]),
-            }),
-          )
-          .optional()
-          .describe("Project dependencies/relations"),
+        parent_file_id: z.number().optional().describe("Upload as an additional file of this file"),
+        game_versions: gameVersionsSchema,
+        game_version_ids: gameVersionIdsSchema,
+        game_slug: gameSlugSchema,
+        release_type: releaseTypeSchema,
+        relations: relationsSchema,
+        validate_only: z.boolean().optional().default(false).describe("Check everything and return the metadata without uploading"),
+      },
+      outputSchema: {
+        fileId: z.number().optional().describe("Uploaded file ID — absent with validate_only"),
+        projectId: z.number(),
+        valid: z.boolean().optional().describe("validate_only: no errors found"),
+        errors: z.array(z.string()).optional(),
+        warnings: z.array(z.string()).optional(),
+        metadata: z.record(z.string(), z.unknown()).optional().describe("validate_only: UploadMetadata JSON that would be sent"),
       },
       annotations: {
         readOnlyHint: false,
@@ -53,34 +161,317 @@ export function registerUploadApiTools(
         openWorldHint: true,
       },
     },
-    async (params) => {
+    withRetryReport(async (params, extra) => {
       try {
+        const notify = progressNotifier(extra);
+        const onProgress = (sent: number, total: number) => notify(sent, total, `Uploading ${mb(sent)} / ${mb(total)} MB`);
+
         const metadata: UploadMetadata = {
           changelog: params.changelog,
           changelogType: params.changelog_type,
           displayName: params.display_name,
+          parentFileID: params.parent_file_id,
           releaseType: params.release_type,
         };
 
-        if (params.game_version_ids?.length) {
-          metadata.gameVersions = params.game_version_ids;
-        }
-
         if (params.relations && params.relations.length > 0) {
           metadata.relations = { projects: params.relations };
         }
 
+        const projectId = await resolver.resolve(params.project_id);
+
+        if (params.validate_only) {
+          const v = await validateUpload(client, resolver, core, {
+            projectId,
+            filePath: params.file_path,
+            metadata,
+            gameVersions: [...(params.game_version_ids ?? []), ...(params.game_versions ?? [])],
+            gameSlug: params.game_slug,
+          });
+          const valid = v.errors.length === 0;
+          const lines = [
+            `${valid ? "Valid" : "Invalid"} upload for project ${projectId}: ${params.file_path}${v.size !== undefined ? ` (${fmtSize(v.size)})` : ""}`,
+            `Host: ${client.baseUrl(params.game_slug)}`,
+          ];
+          if (v.errors.length) lines.push("", "Errors:", ...v.errors.map((e) => `  - ${e}`));
+          if (v.warnings.length) lines.push("", "Warnings:", ...v.warnings.map((w) => `  - ${w}`));
+          lines.push("", "Metadata:", JSON.stringify(v.metadata, null, 2));
+          return success(lines.join("\n"), {
+            projectId,
+            valid,
+            errors: v.errors,
+            warnings: v.warnings,
+            metadata: JSON.parse(JSON.stringify(v.metadata)),
+          });
+        }
+
+        const gameVersions = [
+          ...(params.game_version_ids ?? []),
+          ...(await client.resolveGameVersions(params.game_versions ?? [], params.game_slug)),
+        ];
+        if (gameVersions.length) {
+          metadata.gameVersions = [...new Set(gameVersions)];
+        }
+
         const result = await client.uploadFile(
-          params.project_id,
+          projectId,
           params.file_path,
           metadata,
+          { gameSlug: params.game_slug, onProgress },
         );
 
-        return success(`File uploaded. File ID: ${result.id}`);
+        return success(`File uploaded. File ID: ${result.id}`, { fileId: result.id, projectId });
       } catch (e) {
         return error(`upload_file: ${e instanceof Error ? e.message : String(e)}`);
       }
+    }),
+  );
+
+  /** Validate every file, then upload the primary file and attach the rest to
+   *  it. Shared by upload_release and publish_release. */
+  const publishFiles = async (
+    tool: string,
+    extra: ProgressExtra,
+    request: {
+      projectId: number;
+      uploads: Array<{ filePath: string; primary: boolean; metadata: UploadMetadata }>;
+      gameVersions: Array<string | number>;
+      gameSlug?: string;
+      validateOnly: boolean;
+      /** Lines shown before the result, e.g. the release plan */
+      header?: string[];
+      extraStructured?: Record<string, unknown>;
+    },
+  ): Promise<ToolResult> => {
+    const { projectId, uploads, gameVersions, gameSlug, validateOnly, header = [], extraStructured = {} } = request;
+
+    // Validate every file up front so a missing sources jar cannot leave a half-published release
+    const checks = await Promise.all(
+      uploads.map((u) =>
+        validateUpload(client, resolver, core, { projectId, filePath: u.filePath, metadata: u.metadata, gameVersions, gameSlug }),
+      ),
+    );
+    const invalid = checks.some((c) => c.errors.length);
+
+    if (validateOnly || invalid) {
+      const lines = [...header, `${invalid ? "Invalid" : "Valid"} release for project ${projectId} (${uploads.length} files, host ${client.baseUrl(gameSlug)})`];
+      uploads.forEach((u, i) => {
+        const c = checks[i];
+        lines.push("", `${u.primary ? "Primary" : "Additional"}: ${u.filePath}${c.size !== undefined ? ` (${fmtSize(c.size)})` : ""}`);
+        lines.push(...c.errors.map((e) => `  error: ${e}`), ...c.warnings.map((w) => `  warning: ${w}`));
+        if (validateOnly) lines.push(`  metadata: ${JSON.stringify(u.primary ? c.metadata : { ...c.metadata, parentFileID: "<primary file ID>" })}`);
+      });
+      const structured = {
+        ...extraStructured,
+        projectId,
+        complete: !invalid,
+        files: uploads.map((u, i) => ({
+          filePath: u.filePath,
+          primary: u.primary,
+          error: checks[i].errors.join("; ") || undefined,
+          warnings: checks[i].warnings,
+        })),
+      };
+      if (invalid && !validateOnly) return error(`${tool}: nothing uploaded\n${lines.join("\n")}`);
+      return success(lines.join("\n"), structured);
+    }
+
+    const notify = progressNotifier(extra);
+    const total = checks.reduce((sum, c) => sum + (c.size ?? 0), 0);
+    let done = 0;
+    const results: Array<{ filePath: string; primary: boolean; fileId?: number; error?: string }> = [];
+    let primaryFileId: number | undefined;
+
+    for (const [i, u] of uploads.entries()) {
+      const metadata: UploadMetadata = { ...checks[i].metadata, parentFileID: u.primary ? undefined : primaryFileId };
+      const label = `${i + 1}/${uploads.length} ${basename(u.filePath)}`;
+      try {
+        const result = await client.uploadFile(projectId, u.filePath, metadata, {
+          gameSlug,
+          onProgress: (sent) => notify(done + sent, total, `Uploading ${label}: ${mb(done + sent)} / ${mb(total)} MB`),
+        });
+        results.push({ filePath: u.filePath, primary: u.primary, fileId: result.id });
+        if (u.primary) primaryFileId = result.id;
+      } catch (e) {
+        const msg = e instanceof Error ? e.message : String(e);
+        // Without the primary file there is nothing to attach the others to
+        if (u.primary) return error(`${tool}: primary file failed, nothing uploaded: ${msg}`);
+        results.push({ filePath: u.filePath, primary: false, error: msg });
+      }
+      done += checks[i].size ?? 0;
+    }
+
+    const failed = results.filter((r) => r.error);
+    const lines = [
+      ...header,
+      `${failed.length ? "Partially uploaded" : "Uploaded"} release for project ${projectId}: ${results.length - failed.length}/${results.length} files`,
+      ...results.map((r) => `  ${r.primary ? "primary" : "additional"} ${r.filePath}: ${r.error ? `FAILED — ${r.error}` : `file ID ${r.fileId}`}`),
+    ];
+    if (failed.length) lines.push("", `Retry failed files with upload_file parent_file_id=${primaryFileId}.`);
+    return success(lines.join("\n"), { ...extraStructured, projectId, primaryFileId, complete: failed.length === 0, files: results });
+  };
+
+  server.registerTool(
+    "upload_release",
+    {
+      title: "Upload Release",
+      description:
+        "Upload a release in one call: the primary file, then each additional file (sources, dev, API jars) with parentFileID set to the primary's new ID. Changelog, release type and game versions are shared; relations apply to the primary file. If an additional file fails the rest still upload and the failures are reported. validate_only=true checks every file first without uploading. Requires CURSEFORGE_AUTHOR_TOKEN.",
+      inputSchema: {
+        project_id: modRefSchema,
+        file_path: z.string().describe("Absolute path to the primary file"),
+        display_name: z.string().optional().describe("Display name for the primary file"),
+        additional_files: z
+          .array(
+            z.object({
+              file_path: z.string().describe("Absolute path to the additional file"),
+              display_name: z.string().optional(),
+            }),
+          )
+          .optional()
+          .default([]),
+        changelog: z.string().optional().describe("Changelog text, shared by every file"),
+        changelog_type: changelogTypeSchema,
+        game_versions: gameVersionsSchema,
+        game_version_ids: gameVersionIdsSchema,
+        game_slug: gameSlugSchema,
+        release_type: releaseTypeSchema,
+        relations: relationsSchema,
+        validate_only: z.boolean().optional().default(false).describe("Check every file and return the metadata without uploading"),
+      },
+      outputSchema: {
+        projectId: z.number(),
+        primaryFileId: z.number().optional(),
+        complete: z.boolean().describe("Every file uploaded (or, with validate_only, passed validation)"),
+        files: z.array(
+          z.object({
+            filePath: z.string(),
+            primary: z.boolean(),
+            fileId: z.number().optional(),
+            error: z.string().optional(),
+            warnings: z.array(z.string()).optional(),
+          }),
+        ),
+      },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+    },
+    withRetryReport(async (params, extra) => {
+      try {
+        const projectId = await resolver.resolve(params.project_id);
+        const shared: UploadMetadata = {
+          changelog: params.changelog,
+          changelogType: params.changelog_type,
+          releaseType: params.release_type,
+        };
+        const primaryMetadata: UploadMetadata = { ...shared, displayName: params.display_name };
+        if (params.relations?.length) primaryMetadata.relations = { projects: params.relations };
+
+        const uploads = [
+          { filePath: params.file_path, primary: true, metadata: primaryMetadata },
+          ...params.additional_files.map((f) => ({
+            filePath: f.file_path,
+            primary: false,
+            metadata: { ...shared, displayName: f.display_name } as UploadMetadata,
+          })),
+        ];
+        return await publishFiles("upload_release", extra, {
+          projectId,
+          uploads,
+          gameVersions: [...(params.game_version_ids ?? []), ...(params.game_versions ?? [])],
+          gameSlug: params.game_slug,
+          validateOnly: params.validate_only,
+        });
+      } catch (e) {
+        return error(`upload_release: ${e instanceof Error ? e.message : String(e)}`);
+      }
+    }),
+  );
+
+  server.registerTool(
+    "publish_release",
+    {
+      title: "Publish Release",
+      description:
+        `Publish a release described by a project-local ${RELEASE_CONFIG_FILE}: project ID, file globs (primary plus additional), display-name template ({version}, {releaseType}, {gameVersion}, {gameVersions}, {date}, {fileName}), release type rules by version suffix (default -alpha/-beta), game versions, relations and changelog (inline template or a CHANGELOG file, by default only the section for this version). Expands the config and uploads like upload_release. validate_only=true shows the expanded plan and checks every file without uploading. Requires CURSEFORGE_AUTHOR_TOKEN.`,
+      inputSchema: {
+        config_path: z.string().describe(`Absolute path to ${RELEASE_CONFIG_FILE} or the directory containing it`),
+        version: z.string().optional().describe("Release version, e.g. 1.4.0-beta.2 — overrides the config's version"),
+        release_type: z.enum(["alpha", "beta", "release"]).optional().describe("Override the release type derived from the version"),
+        changelog: z.string().optional().describe("Override the changelog from the config"),
+        validate_only: z.boolean().optional().default(false).describe("Expand the config and check every file without uploading"),
+      },
+      outputSchema: {
+        version: z.string().optional(),
+        releaseType: z.string(),
+        projectId: z.number(),
+        primaryFileId: z.number().optional(),
+        complete: z.boolean().describe("Every file uploaded (or, with validate_only, passed validation)"),
+        files: z.array(
+          z.object({
+            filePath: z.string(),
+            primary: z.boolean(),
+            fileId: z.number().optional(),
+            error: z.string().optional(),
+            warnings: z.array(z.string()).optional(),
+          }),
+        ),
+      },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
     },
+    withRetryReport(async (params, extra) => {
+      try {
+        const { config, dir } = await loadReleaseConfig(params.config_path);
+        const plan = await planRelease(config, dir, {
+          version: params.version,
+          releaseType: params.release_type,
+          changelog: params.changelog,
+        });
+        const projectId = await resolver.resolve(plan.projectId, client.game(plan.gameSlug) || undefined);
+        const shared: UploadMetadata = {
+          changelog: plan.changelog,
+          changelogType: plan.changelogType,
+          releaseType: plan.releaseType,
+        };
+        const primaryMetadata: UploadMetadata = { ...shared, displayName: plan.primary.displayName };
+        if (plan.relations.length) primaryMetadata.relations = { projects: plan.relations };
+
+        const uploads = [
+          { filePath: plan.primary.filePath, primary: true, metadata: primaryMetadata },
+          ...plan.additional.map((f) => ({
+            filePath: f.filePath,
+            primary: false,
+            metadata: { ...shared, displayName: f.displayName } as UploadMetadata,
+          })),
+        ];
+        const header = [
+          `Release ${plan.version ?? "(no version)"} — ${plan.releaseType}${plan.primary.displayName ? `, "${plan.primary.displayName}"` : ""}`,
+          `Game versions: ${plan.gameVersions.join(", ") || "none"}`,
+          `Changelog: ${plan.changelog ? `${plan.changelog.length} chars (${plan.changelogType})` : "none"}`,
+          "",
+        ];
+        return await publishFiles("publish_release", extra, {
+          projectId,
+          uploads,
+          gameVersions: plan.gameVersions,
+          gameSlug: plan.gameSlug,
+          validateOnly: params.validate_only,
+          header,
+          extraStructured: { version: plan.version, releaseType: plan.releaseType },
+        });
+      } catch (e) {
+        return error(`publish_release: ${e instanceof Error ? e.message : String(e)}`);
+      }
+    }),
   );
 
   server.registerTool(
@@ -90,7 +481,13 @@ export function registerUploadApiTools(
       description:
         "Get available game versions for the upload form. Returns version IDs needed for upload_file.",
       inputSchema: {
-        game_slug: z.string().optional().describe('Game slug (e.g. "hytale", "minecraft"). Currently unused — versions are global.'),
+        game_slug: z.string().optional().describe('Game slug (e.g. "minecraft", "wow") — defaults to CURSEFORGE_GAME_SLUG'),
+        query: z.string().optional().describe("Only versions or version types whose name contains this, e.g. '1.20' or 'java'"),
+      },
+      outputSchema: {
+        versions: z.array(
+          z.object({ id: z.number(), gameVersionTypeID: z.number(), name: z.string(), slug: z.string() }),
+        ),
       },
       annotations: {
         readOnlyHint: true,
@@ -99,17 +496,25 @@ export function registerUploadApiTools(
         openWorldHint: true,
       },
     },
-    async () => {
+    withRetryReport(async ({ game_slug, query }) => {
       try {
-        const versions = await client.getGameVersions();
+        const [all, types] = await Promise.all([
+          client.getGameVersions(game_slug),
+          client.getGameVersionTypes(game_slug),
+        ]);
+        const typeNames = new Map(types.map((t) => [t.id, t.name]));
+        const q = query?.toLowerCase();
+        const versions = q
+          ? all.filter((v) => v.name.toLowerCase().includes(q) || typeNames.get(v.gameVersionTypeID)?.toLowerCase().includes(q))
+          : all;
         const lines = versions.map(
-          (v) => `[${v.id}] ${v.name} (type: ${v.gameVersionTypeID})`,
+          (v) => `[${v.id}] ${v.name} (type: ${typeNames.get(v.gameVersionTypeID) ?? v.gameVersionTypeID})`,
         );
-        return success(`${versions.length} game versions:\n${lines.join("\n")}`);
+        return success(`${versions.length} game versions (${client.baseUrl(game_slug)}):\n${lines.join("\n")}`, { versions });
       } catch (e) {
         return error(`get_upload_game_versions: ${e instanceof Error ? e.message : String(e)}`);
       }
-    },
+    }),
   );
 
   server.registerTool(
@@ -118,7 +523,10 @@ export function registerUploadApiTools(
       title: "Get Upload Version Types",
       description: "Get game version type categories for the upload form.",
       inputSchema: {
-        game_slug: z.string().optional().describe('Game slug (e.g. "hytale", "minecraft"). Currently unused — types are global.'),
+        game_slug: z.string().optional().describe('Game slug (e.g. "minecraft", "wow") — defaults to CURSEFORGE_GAME_SLUG'),
+      },
+      outputSchema: {
+        types: z.array(z.object({ id: z.number(), name: z.string(), slug: z.string() })),
       },
       annotations: {
         readOnlyHint: true,
@@ -127,15 +535,15 @@ export function registerUploadApiTools(
         openWorldHint: true,
       },
     },
-    async () => {
+    withRetryReport(async ({ game_slug }) => {
       try {
-        const types = await client.getGameVersionTypes();
+        const types = await client.getGameVersionTypes(game_slug);
         const lines = types.map((t) => `[${t.id}] ${t.name} (${t.slug})`);
-        return success(`${types.length} version types:\n${lines.join("\n")}`);
+        return success(`${types.length} version types:\n${lines.join("\n")}`, { types });
       } catch (e) {
         return error(`get_upload_version_types: ${e instanceof Error ? e.message : String(e)}`);
       }
-    },
+    }),
   );
 
 }
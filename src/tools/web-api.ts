@@ -1,7 +1,10 @@
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod/v4";
 import type { WebClient } from "../clients/web-client.js";
-import { formatCommentThread, compact, truncate } from "../utils/helpers.js";
+import type { ProjectResolver } from "../clients/project-resolver.js";
+import { formatCommentThread, compact, truncate, truncateData } from "../utils/helpers.js";
+import { commentSchema, modRefSchema, toComment } from "../utils/schemas.js";
+import { withRetryReport } from "../utils/request-policy.js";
 import { success, error } from "../utils/types.js";
 
 const CF_BASE = "https://www.curseforge.com";
@@ -10,6 +13,7 @@ const AUTHORS_API = "https://authors.curseforge.com/_api";
 export function registerWebApiTools(
   server: McpServer,
   client: WebClient,
+  resolver: ProjectResolver,
 ): void {
   server.registerTool(
     "cf_set_cookies",
@@ -20,6 +24,7 @@ export function registerWebApiTools(
       inputSchema: {
         cookies: z.string().describe('Cookie string from browser'),
       },
+      outputSchema: { sessionActive: z.boolean() },
       annotations: {
         readOnlyHint: false,
         destructiveHint: false,
@@ -27,14 +32,14 @@ export function registerWebApiTools(
         openWorldHint: false,
       },
     },
-    async ({ cookies }) => {
+    withRetryReport(async ({ cookies }) => {
       try {
         client.setCookiesFromString(cookies);
-        return success(`Cookies saved. Session active: ${client.hasCookies()}`);
+        return success(`Cookies saved. Session active: ${client.hasCookies()}`, { sessionActive: client.hasCookies() });
       } catch (e) {
         return error(`set_cookies: ${e instanceof Error ? e.message : String(e)}`);
       }
-    },
+    }),
   );
 
   server.registerTool(
@@ -44,6 +49,10 @@ export function registerWebApiTools(
       description:
         "Automatically extract curseforge.com session cookies from installed browsers. No user input needed.",
       inputSchema: {},
+      outputSchema: {
+        message: z.string(),
+        sessionActive: z.boolean(),
+      },
       annotations: {
         readOnlyHint: false,
         destructiveHint: false,
@@ -51,14 +60,14 @@ export function registerWebApiTools(
         openWorldHint: false,
       },
     },
-    async () => {
+    withRetryReport(async () => {
       try {
         const result = await client.autoExtractCookies();
-        return success(`${result}\nSession active: ${client.hasCookies()}`);
+        return success(`${result}\nSession active: ${client.hasCookies()}`, { message: String(result), sessionActive: client.hasCookies() });
       } catch (e) {
         return error(`auto_extract: ${e instanceof Error ? e.message : String(e)}`);
       }
-    },
+    }),
   );
 
   server.registerTool(
@@ -67,10 +76,17 @@ export function registerWebApiTools(
       title: "Get Project Comments",
       description: "Read comments on a CurseForge project. Returns threaded comments with replies nested under parent comments. Comments without replies are marked [NO REPLIES].",
       inputSchema: {
-        mod_id: z.number().describe("CurseForge mod/project ID"),
+        mod_id: modRefSchema,
         page: z.number().optional().default(1),
         page_size: z.number().optional().default(20),
       },
+      outputSchema: {
+        page: z.number(),
+        pageSize: z.number(),
+        totalCount: z.number().optional(),
+        unanswered: z.number().describe("Top-level comments without replies"),
+        comments: z.array(commentSchema),
+      },
       annotations: {
         readOnlyHint: true,
         destructiveHint: false,
@@ -78,9 +94,10 @@ export function registerWebApiTools(
         openWorldHint: true,
       },
     },
-    async ({ mod_id, page, page_size }) => {
+    withRetryReport(async ({ mod_id: ref, page, page_size }) => {
       if (!client.hasCookies()) return error("No session cookies. Use cf_auto_extract_cookies first.");
       try {
+        const mod_id = await resolver.resolve(ref);
         const index = (page - 1) * page_size;
         const data = await client.get(
           `${CF_BASE}/api/v1/mods/${mod_id}/comments?index=${index}&pageSize=${page_size}`,
@@ -89,11 +106,17 @@ export function registerWebApiTools(
         const threads = comments.map((c: any) => formatCommentThread(c));
         const unanswered = comments.filter((c: any) => !c.replies?.length).length;
         const total = data.pagination?.totalCount || "?";
-        return success(`${total} comments (page ${page}), ${unanswered} unanswered:\n\n${threads.join("\n\n")}`);
+        return success(`${total} comments (page ${page}), ${unanswered} unanswered:\n\n${threads.join("\n\n")}`, {
+          page,
+          pageSize: page_size,
+          totalCount: data.pagination?.totalCount ?? undefined,
+          unanswered,
+          comments: comments.map(toComment),
+        });
       } catch (e) {
         return error(`get_comments: ${e instanceof Error ? e.message : String(e)}`);
       }
-    },
+    }),
   );
 
   server.registerTool(
@@ -102,10 +125,14 @@ export function registerWebApiTools(
       title: "Post Comment",
       description: "Post a comment or reply on a CurseForge project.",
       inputSchema: {
-        mod_id: z.number().describe("CurseForge mod/project ID"),
+        mod_id: modRefSchema,
         comment_text: z.string().describe("Comment text"),
         reply_to_id: z.number().optional().describe("Comment ID to reply to"),
       },
+      outputSchema: {
+        modId: z.number(),
+        replyToId: z.number().optional(),
+      },
       annotations: {
         readOnlyHint: false,
         destructiveHint: false,
@@ -113,9 +140,10 @@ export function registerWebApiTools(
         openWorldHint: true,
       },
     },
-    async ({ mod_id, comment_text, reply_to_id }) => {
+    withRetryReport(async ({ mod_id: ref, comment_text, reply_to_id }) => {
       if (!client.hasCookies()) return error("No session cookies. Use cf_auto_extract_cookies first.");
       try {
+        const mod_id = await resolver.resolve(ref);
         const body: Record<string, unknown> = {
           entityId: mod_id,
           body: comment_text,
@@ -123,11 +151,11 @@ export function registerWebApiTools(
         };
         if (reply_to_id !== undefined) body.parentId = reply_to_id;
         await client.post(`${CF_BASE}/api/v1/comments`, body);
-        return success("Comment posted.");
+        return success("Comment posted.", { modId: mod_id, replyToId: reply_to_id });
       } catch (e) {
         return error(`post_comment: ${e instanceof Error ? e.message : String(e)}`);
       }
-    },
+    }),
   );
 
   server.registerTool(
@@ -136,9 +164,13 @@ export function registerWebApiTools(
       title: "Delete Comment",
       description: "Delete a comment on a CurseForge project.",
       inputSchema: {
-        mod_id: z.number(),
+        mod_id: modRefSchema,
         comment_id: z.number(),
       },
+      outputSchema: {
+        mod: z.union([z.number(), z.string()]).describe("mod_id as given — deleting only needs the comment ID"),
+        commentId: z.number(),
+      },
       annotations: {
         readOnlyHint: false,
         destructiveHint: true,
@@ -146,15 +178,15 @@ export function registerWebApiTools(
         openWorldHint: true,
       },
     },
-    async ({ mod_id, comment_id }) => {
+    withRetryReport(async ({ mod_id, comment_id }) => {
       if (!client.hasCookies()) return error("No session cookies. Use cf_auto_extract_cookies first.");
       try {
         await client.delete(`${CF_BASE}/api/v1/comments/${comment_id}`);
-        return success(`Comment ${comment_id} deleted.`);
+        return success(`Comment ${comment_id} deleted.`, { mod: mod_id, commentId: comment_id });
       } catch (e) {
         return error(`delete_comment: ${e instanceof Error ? e.message : String(e)}`);
       }
-    },
+    }),
   );
 
   server.registerTool(
@@ -163,7 +195,11 @@ export function registerWebApiTools(
       title: "Get Project Settings",
       description: "Get settings/metadata for a CurseForge project via Authors API. Returns project config, permissions, status, and more.",
       inputSchema: {
-        project_id: z.number().describe("CurseForge project ID"),
+        project_id: modRefSchema,
+      },
+      outputSchema: {
+        settings: z.unknown().describe("Project settings, or their truncated JSON text when too large"),
+        truncated: z.boolean(),
       },
       annotations: {
         readOnlyHint: true,
@@ -172,15 +208,17 @@ export function registerWebApiTools(
         openWorldHint: true,
       },
     },
-    async ({ project_id }) => {
+    withRetryReport(async ({ project_id: ref }) => {
       if (!client.hasCookies()) return error("No session cookies. Use cf_auto_extract_cookies first.");
       try {
+        const project_id = await resolver.resolve(ref);
         const data = await client.get(`${AUTHORS_API}/projects/${project_id}`);
-        return success(truncate(compact(data)));
+        const { data: settings, truncated } = truncateData(data);
+        return success(truncate(compact(data)), { settings, truncated });
       } catch (e) {
         return error(`get_project_settings: ${e instanceof Error ? e.message : String(e)}`);
       }
-    },
+    }),
   );
 
   server.registerTool(
@@ -190,9 +228,10 @@ export function registerWebApiTools(
       description:
         "Update the description of a CurseForge project (HTML supported). Requires session cookies (browser auth).",
       inputSchema: {
-        project_id: z.number().describe("CurseForge project ID"),
+        project_id: modRefSchema,
         description: z.string().describe("New description (HTML supported)"),
       },
+      outputSchema: { projectId: z.number() },
       annotations: {
         readOnlyHint: false,
         destructiveHint: false,
@@ -200,18 +239,19 @@ export function registerWebApiTools(
         openWorldHint: true,
       },
     },
-    async ({ project_id, description }) => {
+    withRetryReport(async ({ project_id: ref, description }) => {
       if (!client.hasCookies()) return error("No session cookies. Use cf_auto_extract_cookies first.");
       try {
+        const project_id = await resolver.resolve(ref);
         await client.put(
           `${AUTHORS_API}/projects/description/${project_id}`,
           { description, descriptionType: 1, id: project_id },
         );
-        return success("Description updated.");
+        return success("Description updated.", { projectId: project_id });
       } catch (e) {
         return error(`update_project_description: ${e instanceof Error ? e.message : String(e)}`);
       }
-    },
+    }),
   );
 
   server.registerTool(
@@ -225,6 +265,12 @@ export function registerWebApiTools(
         method: z.enum(["GET", "POST", "PUT", "DELETE"]).optional().default("GET"),
         body: z.string().optional().describe("JSON body for POST"),
       },
+      outputSchema: {
+        url: z.string(),
+        method: z.enum(["GET", "POST", "PUT", "DELETE"]),
+        data: z.unknown().describe("Parsed JSON response, or the raw text — truncated text when too large"),
+        truncated: z.boolean(),
+      },
       annotations: {
         readOnlyHint: false,
         destructiveHint: false,
@@ -232,7 +278,7 @@ export function registerWebApiTools(
         openWorldHint: true,
       },
     },
-    async ({ url, method, body }) => {
+    withRetryReport(async ({ url, method, body }) => {
       try {
         const fullUrl = url.startsWith("http") ? url : `${CF_BASE}${url}`;
         let data: any;
@@ -246,10 +292,10 @@ export function registerWebApiTools(
           data = await client.get(fullUrl);
         }
         const text = typeof data === "string" ? data : compact(data);
-        return success(truncate(text));
+        return success(truncate(text), { url: fullUrl, method, ...truncateData(data) });
       } catch (e) {
         return error(`cf_fetch_page: ${e instanceof Error ? e.message : String(e)}`);
       }
-    },
+    }),
   );
 }
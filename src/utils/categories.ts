@@ -0,0 +1,77 @@
+/** Class → category → subcategory tree built from the flat getCategories list.
+ *  Classes have isClass=true; top-level categories point at their class via
+ *  parentCategoryId, subcategories at their parent category. */
+export interface CategoryNode {
+  id: number;
+  name: string;
+  slug: string;
+  isClass: boolean;
+  classId?: number;
+  parentCategoryId?: number;
+  /** Names from the class down to this node */
+  path: string[];
+  children: CategoryNode[];
+}
+
+export function buildCategoryTree(categories: any[]): CategoryNode[] {
+  const nodes = new Map<number, CategoryNode>();
+  for (const c of categories) {
+    nodes.set(c.id, {
+      id: c.id,
+      name: c.name,
+      slug: c.slug ?? "",
+      isClass: Boolean(c.isClass),
+      classId: c.classId ?? undefined,
+      parentCategoryId: c.parentCategoryId ?? undefined,
+      path: [],
+      children: [],
+    });
+  }
+
+  const roots: CategoryNode[] = [];
+  for (const node of nodes.values()) {
+    const parent = node.isClass ? undefined : nodes.get(node.parentCategoryId ?? node.classId ?? -1);
+    if (parent && parent !== node) parent.children.push(node);
+    else roots.push(node);
+  }
+
+  const byName = (a: CategoryNode, b: CategoryNode) => a.name.localeCompare(b.name);
+  const walk = (node: CategoryNode, path: string[]) => {
+    node.path = [...path, node.name];
+    node.children.sort(byName);
+    for (const child of node.children) walk(child, node.path);
+  };
+  // Classes first, then any orphans whose parent the API did not return
+  roots.sort((a, b) => Number(b.isClass) - Number(a.isClass) || byName(a, b));
+  for (const root of roots) walk(root, []);
+  return roots;
+}
+
+export function flattenTree(roots: CategoryNode[]): CategoryNode[] {
+  return roots.flatMap((n) => [n, ...flattenTree(n.children)]);
+}
+
+/** search_mods parameters that select this node */
+export function searchParamsFor(node: CategoryNode): { class_id?: number; category_id?: number } {
+  return node.isClass ? { class_id: node.id } : { class_id: node.classId, category_id: node.id };
+}
+
+/** Nodes whose name or slug matches the query — exact matches first, then substrings. */
+export function findCategories(roots: CategoryNode[], query: string): CategoryNode[] {
+  const q = query.trim().toLowerCase();
+  const all = flattenTree(roots);
+  const exact = all.filter((n) => n.slug === q || n.name.toLowerCase() === q);
+  const partial = all.filter((n) => !exact.includes(n) && (n.slug.includes(q) || n.name.toLowerCase().includes(q)));
+  return [...exact, ...partial];
+}
+
+export function formatCategoryTree(roots: CategoryNode[]): string {
+  const lines: string[] = [];
+  const walk = (node: CategoryNode, depth: number) => {
+    const kind = node.isClass ? "class" : "category";
+    lines.push(`${"  ".repeat(depth)}${depth ? "└─ " : ""}[${node.id}] ${node.name} (${node.slug}${depth ? "" : `, ${kind}`})`);
+    for (const child of node.children) walk(child, depth + 1);
+  };
+  for (const root of roots) walk(root, 0);
+  return lines.join("\n");
+}
@@ -0,0 +1,141 @@
+import type { CoreApiClient } from "../clients/curseforge-client.js";
+import { MOD_LOADER_LABELS, RELEASE_LABELS, releaseTypesFor, type ReleaseChannel } from "./helpers.js";
+import { fetchAllModFiles, fileTime } from "./mod-files.js";
+
+/** Tags in a file's gameVersions that are not game versions */
+const NON_VERSION_TAGS = new Set(["client", "server"]);
+const LOADER_BY_NAME = new Map(Object.values(MOD_LOADER_LABELS).map((name) => [name.toLowerCase(), name]));
+
+/** Newest file ID per release type for one game version × loader */
+export interface MatrixCell {
+  gameVersion: string;
+  loader: string;
+  release?: number;
+  beta?: number;
+  alpha?: number;
+}
+
+export interface CompatibilityMatrix {
+  modId: number;
+  /** Game versions, highest first */
+  versions: string[];
+  loaders: string[];
+  cells: MatrixCell[];
+}
+
+export interface CommonSupport {
+  loader: string;
+  /** Versions every mod supports for this loader, highest first */
+  versions: string[];
+}
+
+/** Compare dotted versions numerically ("1.20.10" > "1.20.9"), falling back to string order. */
+export function compareVersions(a: string, b: string): number {
+  const pa = a.split(/[.\-]/);
+  const pb = b.split(/[.\-]/);
+  for (let i = 0; i < Math.max(pa.length, pb.length); i++) {
+    const na = Number(pa[i] ?? 0);
+    const nb = Number(pb[i] ?? 0);
+    if (Number.isFinite(na) && Number.isFinite(nb)) {
+      if (na !== nb) return na - nb;
+    } else if ((pa[i] ?? "") !== (pb[i] ?? "")) {
+      return (pa[i] ?? "").localeCompare(pb[i] ?? "");
+    }
+  }
+  return 0;
+}
+
+class MatrixBuilder {
+  private cells = new Map<string, MatrixCell>();
+  private times = new Map<string, number>();
+
+  add(gameVersion: string, loader: string, releaseType: number, fileId: number, time: number): void {
+    const type = RELEASE_LABELS[releaseType] as "release" | "beta" | "alpha" | undefined;
+    if (!type) return;
+    const key = `${gameVersion}\u0000${loader}`;
+    let cell = this.cells.get(key);
+    if (!cell) {
+      cell = { gameVersion, loader };
+      this.cells.set(key, cell);
+    }
+    const timeKey = `${key}\u0000${type}`;
+    if (cell[type] === undefined || time > (this.times.get(timeKey) ?? 0)) {
+      cell[type] = fileId;
+      this.times.set(timeKey, time);
+    }
+  }
+
+  build(modId: number): CompatibilityMatrix {
+    const cells = [...this.cells.values()].sort(
+      (a, b) => compareVersions(b.gameVersion, a.gameVersion) || a.loader.localeCompare(b.loader),
+    );
+    return {
+      modId,
+      versions: [...new Set(cells.map((c) => c.gameVersion))],
+      loaders: [...new Set(cells.map((c) => c.loader))].sort(),
+      cells,
+    };
+  }
+}
+
+/** Matrix from the mod's latestFilesIndexes — one API call, newest file per version/loader/type. */
+export async function matrixFromIndexes(client: CoreApiClient, modId: number): Promise<CompatibilityMatrix> {
+  const mod: any = await client.getMod(modId);
+  const builder = new MatrixBuilder();
+  for (const idx of mod.latestFilesIndexes ?? []) {
+    if (!idx.gameVersion) continue;
+    // Indexes carry no dates — file IDs are assigned in upload order, so a higher ID is newer
+    builder.add(idx.gameVersion, MOD_LOADER_LABELS[idx.modLoader ?? 0] ?? "Any", idx.releaseType, idx.fileId, idx.fileId);
+  }
+  return builder.build(modId);
+}
+
+/** Matrix from every file of the mod — complete, but one request per 50 files. */
+export async function matrixFromFiles(client: CoreApiClient, modId: number): Promise<CompatibilityMatrix> {
+  const builder = new MatrixBuilder();
+  for (const f of await fetchAllModFiles(client, modId)) {
+    const tags: string[] = f.gameVersions ?? [];
+    const loaders = tags.map((t) => LOADER_BY_NAME.get(t.toLowerCase())).filter((l): l is string => Boolean(l));
+    const versions = tags.filter(
+      (t) => !LOADER_BY_NAME.has(t.toLowerCase()) && !NON_VERSION_TAGS.has(t.toLowerCase()) && !/^java /i.test(t),
+    );
+    for (const version of versions) {
+      for (const loader of loaders.length ? loaders : ["Any"]) {
+        builder.add(version, loader, f.releaseType, f.id, fileTime(f));
+      }
+    }
+  }
+  return builder.build(modId);
+}
+
+/** Versions supported by every matrix, per loader, within the release channel.
+ *  Loader-agnostic cells ("Any") count as support for every loader. */
+export function findCommonSupport(
+  matrices: CompatibilityMatrix[],
+  channel: ReleaseChannel,
+  loaderFilter?: string,
+): CommonSupport[] {
+  const types = releaseTypesFor(channel).map((t) => RELEASE_LABELS[t] as "release" | "beta" | "alpha");
+  const supported = matrices.map((m) => {
+    const set = new Set<string>();
+    for (const c of m.cells) {
+      if (types.some((t) => c[t] !== undefined)) set.add(`${c.gameVersion}\u0000${c.loader}`);
+    }
+    return set;
+  });
+
+  // "Any" only gets its own row when no mod is loader-specific
+  const allLoaders = [...new Set(matrices.flatMap((m) => m.loaders))];
+  const specific = allLoaders.filter((l) => l !== "Any");
+  const loaders = loaderFilter ? [loaderFilter] : specific.length ? specific : allLoaders;
+  const versions = [...new Set(matrices.flatMap((m) => m.versions))].sort((a, b) => compareVersions(b, a));
+
+  return loaders
+    .map((loader) => ({
+      loader,
+      versions: versions.filter((v) =>
+        supported.every((set) => set.has(`${v}\u0000${loader}`) || set.has(`${v}\u0000Any`)),
+      ),
+    }))
+    .filter((c) => c.versions.length);
+}
@@ -0,0 +1,106 @@
+import type { CoreApiClient } from "../clients/curseforge-client.js";
+import { findNewestFile, type FileFilter } from "./mod-files.js";
+
+/** CurseForge FileRelationType values the resolver acts on. */
+const RELATION_OPTIONAL = 2;
+const RELATION_REQUIRED = 3;
+const RELATION_INCOMPATIBLE = 5;
+
+const DEFAULT_MAX_DEPTH = 25;
+
+export type PlanReason = "requested" | "required" | "optional";
+
+export interface PlanEntry {
+  modId: number;
+  file: any;
+  depth: number;
+  reason: PlanReason;
+  /** Mod that pulled this one in (undefined for the requested root) */
+  parentId?: number;
+}
+
+export interface UnresolvedDependency {
+  modId: number;
+  reason: PlanReason;
+  parentId?: number;
+  error: string;
+}
+
+export interface DependencyPlan {
+  entries: PlanEntry[];
+  unresolved: UnresolvedDependency[];
+  /** Each cycle as a mod ID path, first and last element equal */
+  cycles: number[][];
+  /** Declared incompatibilities where both sides ended up in the plan */
+  conflicts: Array<{ modId: number; incompatibleWith: number }>;
+}
+
+export interface ResolveOptions extends FileFilter {
+  includeOptional?: boolean;
+  maxDepth?: number;
+}
+
+/** Walk a mod's dependency graph depth-first, picking the newest file
+ *  compatible with the filter for every mod reached. */
+export async function resolveDependencies(
+  client: CoreApiClient,
+  rootModId: number,
+  options: ResolveOptions,
+): Promise<DependencyPlan> {
+  const maxDepth = options.maxDepth ?? DEFAULT_MAX_DEPTH;
+  const planned = new Map<number, PlanEntry>();
+  const unresolved = new Map<number, UnresolvedDependency>();
+  const cycles: number[][] = [];
+  const incompatible: Array<{ modId: number; incompatibleWith: number }> = [];
+
+  const visit = async (
+    modId: number,
+    depth: number,
+    reason: PlanReason,
+    path: number[],
+    parentId?: number,
+  ): Promise<void> => {
+    const cycleStart = path.indexOf(modId);
+    if (cycleStart !== -1) {
+      cycles.push([...path.slice(cycleStart), modId]);
+      return;
+    }
+    if (planned.has(modId) || unresolved.has(modId)) return;
+    if (depth > maxDepth) {
+      unresolved.set(modId, { modId, reason, parentId, error: `max depth ${maxDepth} exceeded` });
+      return;
+    }
+
+    let file: any;
+    try {
+      file = await findNewestFile(client, modId, options);
+    } catch (e) {
+      unresolved.set(modId, { modId, reason, parentId, error: e instanceof Error ? e.message : String(e) });
+      return;
+    }
+    if (!file) {
+      unresolved.set(modId, { modId, reason, parentId, error: "no compatible file" });
+      return;
+    }
+
+    planned.set(modId, { modId, file, depth, reason, parentId });
+    for (const dep of file.dependencies ?? []) {
+      if (dep.relationType === RELATION_INCOMPATIBLE) {
+        incompatible.push({ modId, incompatibleWith: dep.modId });
+      } else if (dep.relationType === RELATION_REQUIRED) {
+        await visit(dep.modId, depth + 1, "required", [...path, modId], modId);
+      } else if (dep.relationType === RELATION_OPTIONAL && options.includeOptional) {
+        await visit(dep.modId, depth + 1, "optional", [...path, modId], modId);
+      }
+    }
+  };
+
+  await visit(rootModId, 0, "requested", []);
+
+  return {
+    entries: [...planned.values()],
+    unresolved: [...unresolved.values()],
+    cycles,
+    conflicts: incompatible.filter((c) => planned.has(c.incompatibleWith)),
+  };
+}
@@ -0,0 +1,88 @@
+/** Whether a project may be shipped inside a modpack zip. CurseForge authors
+ *  can opt out of third-party distribution (allowModDistribution=false); such
+ *  files also come back without a downloadUrl and must be fetched by players. */
+export type DistributionStatus = "redistributable" | "user-download" | "unavailable" | "unknown";
+
+export interface DistributionEntry {
+  /** Mod name, or the local file name when the jar was not recognised */
+  name: string;
+  modId?: number;
+  fileId?: number;
+  fileName?: string;
+  status: DistributionStatus;
+  reason: string;
+  /** Project page, or the file page for user-download entries */
+  url?: string;
+  sourceUrl?: string;
+  issuesUrl?: string;
+  license?: string;
+}
+
+const SECTIONS: Array<{ status: DistributionStatus; title: string }> = [
+  { status: "user-download", title: "Must be downloaded by players" },
+  { status: "unavailable", title: "Unavailable on CurseForge" },
+  { status: "unknown", title: "Not found on CurseForge — check the license yourself" },
+  { status: "redistributable", title: "Redistributable" },
+];
+
+export function distributionEntry(mod: any, file?: any): DistributionEntry {
+  const base = {
+    name: mod.name ?? `#${mod.id}`,
+    modId: mod.id,
+    fileId: file?.id,
+    fileName: file?.fileName,
+    url: mod.links?.websiteUrl || undefined,
+    sourceUrl: mod.links?.sourceUrl || undefined,
+    issuesUrl: mod.links?.issuesUrl || undefined,
+  };
+  if (file?.isAvailable === false) {
+    return { ...base, status: "unavailable", reason: "file is unpublished or under review" };
+  }
+  if (mod.allowModDistribution === false || (file && !file.downloadUrl)) {
+    const url = base.url && file ? `${base.url}/files/${file.id}` : base.url;
+    const reason = mod.allowModDistribution === false ? "author disabled third-party distribution" : "no API download URL";
+    return { ...base, url, status: "user-download", reason };
+  }
+  return { ...base, status: "redistributable", reason: "distribution allowed" };
+}
+
+/** CFWidget reports the license as a plain name or an object with one. */
+export function licenseName(project: any): string | undefined {
+  const l = project?.license;
+  if (!l) return undefined;
+  return typeof l === "string" ? l : l.name ?? l.title ?? undefined;
+}
+
+function links(e: DistributionEntry): string[] {
+  return [e.url, e.sourceUrl && `source: ${e.sourceUrl}`].filter((v): v is string => Boolean(v));
+}
+
+export function formatDistributionReport(entries: DistributionEntry[], format: "markdown" | "text"): string {
+  const count = (s: DistributionStatus) => entries.filter((e) => e.status === s).length;
+  const summary = `${entries.length} mods: ${count("redistributable")} redistributable, ${count("user-download")} must be downloaded by players, ${count("unavailable")} unavailable, ${count("unknown")} unknown`;
+  const lines: string[] = format === "markdown" ? ["## Mod distribution", "", summary] : [summary];
+
+  for (const { status, title } of SECTIONS) {
+    const group = entries.filter((e) => e.status === status).sort((a, b) => a.name.localeCompare(b.name));
+    if (!group.length) continue;
+    lines.push("");
+    if (format === "markdown") {
+      lines.push(`### ${title} (${group.length})`, "", "| Mod | Reason | License | Links |", "|-----|--------|---------|-------|");
+      for (const e of group) {
+        const name = e.url ? `[${e.name}](${e.url})` : e.name;
+        const extra = [e.sourceUrl && `[source](${e.sourceUrl})`, e.issuesUrl && `[issues](${e.issuesUrl})`].filter(Boolean).join(" · ");
+        lines.push(`| ${name} | ${e.reason} | ${e.license ?? "—"} | ${extra || "—"} |`);
+      }
+    } else {
+      lines.push(`${title} (${group.length}):`);
+      for (const e of group) {
+        const id = e.modId ? ` [${e.modId}${e.fileId ? `/${e.fileId}` : ""}]` : "";
+        const license = e.license ? ` | ${e.license}` : "";
+        lines.push(`  ${e.name}${id} — ${e.reason}${license}`);
+        const l = links(e);
+        if (l.length) lines.push(`    ${l.join(" | ")}`);
+      }
+    }
+  }
+  return lines.join("\n");
+}
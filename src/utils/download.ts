@@ -0,0 +1,131 @@
+import { createReadStream, createWriteStream, existsSync } from "node:fs";
+import { mkdir, rename, rm, stat } from "node:fs/promises";
+import { createHash } from "node:crypto";
+import { dirname } from "node:path";
+import { Readable } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import { httpPolicy } from "./request-policy.js";
+
+/** Core API HashAlgo values */
+export const HASH_ALGOS: Record<number, "sha1" | "md5"> = { 1: "sha1", 2: "md5" };
+
+export interface DownloadExpectation {
+  /** Expected size in bytes (Core API `fileLength`) */
+  size?: number;
+  /** Core API `hashes` — sha1 is preferred over md5 when both are present */
+  hashes?: Array<{ value: string; algo: number }>;
+}
+
+export interface DownloadResult {
+  path: string;
+  size: number;
+  /** Hash the file was verified against, if the API provided one */
+  hash?: { algo: "sha1" | "md5"; value: string };
+  /** An identical file already existed — nothing was downloaded */
+  skipped: boolean;
+  /** Bytes reused from an earlier partial download */
+  resumedFrom: number;
+}
+
+function pickHash(hashes: DownloadExpectation["hashes"]): DownloadResult["hash"] {
+  const known = (hashes ?? []).filter((h) => HASH_ALGOS[h.algo] && h.value);
+  const best = known.find((h) => h.algo === 1) ?? known[0];
+  return best ? { algo: HASH_ALGOS[best.algo], value: best.value.toLowerCase() } : undefined;
+}
+
+async function hashFile(filePath: string, algo: "sha1" | "md5"): Promise<string> {
+  const hash = createHash(algo);
+  await pipeline(createReadStream(filePath), hash);
+  return hash.digest("hex");
+}
+
+async function fileSize(filePath: string): Promise<number | null> {
+  return existsSync(filePath) ? (await stat(filePath)).size : null;
+}
+
+/** Check a file on disk against the expectation. Throws on mismatch. */
+async function verify(filePath: string, expected: DownloadExpectation, hash: DownloadResult["hash"]): Promise<number> {
+  const size = (await stat(filePath)).size;
+  if (expected.size && size !== expected.size) {
+    throw new Error(`Size mismatch: expected ${expected.size} bytes, got ${size}`);
+  }
+  if (hash) {
+    const actual = await hashFile(filePath, hash.algo);
+    if (actual !== hash.value) {
+      throw new Error(`${hash.algo} mismatch: expected ${hash.value}, got ${actual}`);
+    }
+  }
+  return size;
+}
+
+/** Download a URL to `filePath` atomically: stream into `<file>.part`
+ *  (resuming via HTTP Range when a partial file exists), verify size and
+ *  hash, then rename into place. An existing file that already verifies is
+ *  left untouched. `onProgress` receives the size of every chunk written —
+ *  when resuming, it is first called once with the bytes already on disk. */
+export async function downloadToFile(
+  url: string,
+  filePath: string,
+  expected: DownloadExpectation = {},
+  onProgress?: (bytes: number) => void,
+): Promise<DownloadResult> {
+  const hash = pickHash(expected.hashes);
+  const canVerify = Boolean(expected.size || hash);
+
+  if (canVerify && (await fileSize(filePath)) !== null) {
+    try {
+      const size = await verify(filePath, expected, hash);
+      return { path: filePath, size, hash, skipped: true, resumedFrom: 0 };
+    } catch {
+      // Existing file differs — download a fresh copy over it
+    }
+  }
+
+  await mkdir(dirname(filePath), { recursive: true });
+  const partPath = `${filePath}.part`;
+  let offset = (await fileSize(partPath)) ?? 0;
+  if (expected.size && offset > expected.size) {
+    await rm(partPath);
+    offset = 0;
+  }
+
+  if (!expected.size || offset < expected.size) {
+    const response = await httpPolicy.fetch(url, offset > 0 ? { headers: { Range: `bytes=${offset}-` } } : undefined);
+    if (response.status === 416 && offset > 0) {
+      // Partial file already holds every byte — fall through to verification
+    } else {
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status} ${response.statusText} downloading ${url}`);
+      }
+      if (!response.body) {
+        throw new Error("No response body received from download server");
+      }
+      // A 200 to a Range request means the server ignored it — start over
+      if (response.status !== 206) offset = 0;
+      if (offset > 0) onProgress?.(offset);
+
+      const nodeStream = Readable.fromWeb(response.body as any);
+      const fileStream = createWriteStream(partPath, { flags: offset > 0 ? "a" : "w" });
+      await pipeline(
+        nodeStream,
+        async function* (source: AsyncIterable<Buffer>) {
+          for await (const chunk of source) {
+            onProgress?.(chunk.length);
+            yield chunk;
+          }
+        },
+        fileStream,
+      );
+    }
+  }
+
+  let size: number;
+  try {
+    size = await verify(partPath, expected, hash);
+  } catch (e) {
+    await rm(partPath, { force: true });
+    throw e;
+  }
+  await rename(partPath, filePath);
+  return { path: filePath, size, hash, skipped: false, resumedFrom: offset };
+}
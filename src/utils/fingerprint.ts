@@ -0,0 +1,49 @@
+import { readFile } from "node:fs/promises";
+
+/** CurseForge file fingerprint: 32-bit MurmurHash2 (seed 1) over the file
+ *  contents with whitespace bytes (tab, LF, CR, space) removed. */
+
+const M = 0x5bd1e995;
+const SEED = 1;
+
+function isWhitespace(b: number): boolean {
+  return b === 9 || b === 10 || b === 13 || b === 32;
+}
+
+export function computeFingerprint(data: Uint8Array): number {
+  let length = 0;
+  for (let i = 0; i < data.length; i++) {
+    if (!isWhitespace(data[i])) length++;
+  }
+
+  let h = (SEED ^ length) >>> 0;
+  let k = 0;
+  let shift = 0;
+  for (let i = 0; i < data.length; i++) {
+    const b = data[i];
+    if (isWhitespace(b)) continue;
+    k |= b << shift;
+    shift += 8;
+    if (shift === 32) {
+      k = Math.imul(k, M);
+      k ^= k >>> 24;
+      k = Math.imul(k, M);
+      h = Math.imul(h, M) ^ k;
+      k = 0;
+      shift = 0;
+    }
+  }
+  if (shift > 0) {
+    h ^= k;
+    h = Math.imul(h, M);
+  }
+
+  h ^= h >>> 13;
+  h = Math.imul(h, M);
+  h ^= h >>> 15;
+  return h >>> 0;
+}
+
+export async function fingerprintFile(filePath: string): Promise<number> {
+  return computeFingerprint(await readFile(filePath));
+}
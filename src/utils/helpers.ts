@@ -1,5 +1,7 @@
 import { existsSync, accessSync, constants } from "node:fs";
 import { execSync, exec } from "node:child_process";
+import { httpPolicy } from "./request-policy.js";
+import { HASH_ALGOS } from "./download.js";
 
 export function formatJson(data: unknown): string {
   return JSON.stringify(data, null, 2);
@@ -37,6 +39,14 @@ export function truncate(text: string, maxLen: number = 20000): string {
   return text.slice(0, maxLen) + "\n... [truncated]";
 }
 
+/** truncate() for structuredContent: a string, or data whose JSON, longer than
+ *  `maxLen` is replaced by its truncated text, so the structured payload stays
+ *  within the same budget as the text output. */
+export function truncateData(data: unknown, maxLen: number = 20000): { data: unknown; truncated: boolean } {
+  const text = typeof data === "string" ? data : compact(data) ?? "";
+  return text.length <= maxLen ? { data, truncated: false } : { data: truncate(text, maxLen), truncated: true };
+}
+
 const UA_PLATFORMS: Record<string, string> = {
   win32: "Windows NT 10.0; Win64; x64",
   darwin: "Macintosh; Intel Mac OS X 10_15_7",
@@ -95,7 +105,7 @@ export async function safeFetch(
   url: string,
   options?: RequestInit,
 ): Promise<Response> {
-  const response = await fetch(url, {
+  const response = await httpPolicy.fetch(url, {
     ...options,
     headers: {
       "User-Agent": USER_AGENT,
@@ -111,6 +121,30 @@ export async function safeFetch(
   return response;
 }
 
+export function chunk<T>(items: T[], size: number): T[][] {
+  const out: T[][] = [];
+  for (let i = 0; i < items.length; i += size) out.push(items.slice(i, i + size));
+  return out;
+}
+
+/** Map over items with at most `limit` calls in flight. Results keep input order. */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const i = next++;
+      results[i] = await fn(items[i], i);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
 export function openInDefaultBrowser(url: string): void {
   const cmd = process.platform === "win32" ? `start "" "${url}"`
     : process.platform === "darwin" ? `open "${url}"`
@@ -133,14 +167,41 @@ function fmtDate(d: string | Date | undefined): string {
   return date.toISOString().slice(0, 10);
 }
 
-function fmtSize(bytes: number): string {
+export function fmtSize(bytes: number): string {
   if (bytes >= 1_073_741_824) return (bytes / 1_073_741_824).toFixed(1) + "GB";
   if (bytes >= 1_048_576) return (bytes / 1_048_576).toFixed(1) + "MB";
   if (bytes >= 1024) return (bytes / 1024).toFixed(1) + "KB";
   return bytes + "B";
 }
 
-const RELEASE_LABELS: Record<number, string> = { 1: "release", 2: "beta", 3: "alpha" };
+export const RELEASE_LABELS: Record<number, string> = { 1: "release", 2: "beta", 3: "alpha" };
+
+export const MOD_LOADER_LABELS: Record<number, string> = {
+  0: "Any",
+  1: "Forge",
+  2: "Cauldron",
+  3: "LiteLoader",
+  4: "Fabric",
+  5: "Quilt",
+  6: "NeoForge",
+};
+
+/** Core API FileRelationType values */
+export const RELATION_LABELS: Record<number, string> = {
+  1: "embedded library",
+  2: "optional",
+  3: "required",
+  4: "tool",
+  5: "incompatible",
+  6: "include",
+};
+
+export type ReleaseChannel = "release" | "beta" | "alpha";
+
+/** Release types (1=release, 2=beta, 3=alpha) acceptable for a channel — each channel includes the more stable ones. */
+export function releaseTypesFor(channel: ReleaseChannel): number[] {
+  return channel === "release" ? [1] : channel === "beta" ? [1, 2] : [1, 2, 3];
+}
 
 export function formatMod(m: any): string {
   const authors = m.authors?.map((a: any) => a.name || a).join(", ") || "";
@@ -190,6 +251,35 @@ export function formatFile(f: any): string {
   return line;
 }
 
+/** Full file view — dependencies are shown by name when `modNames` has them. */
+export function formatFileDetailed(f: any, modNames: Map<number, string> = new Map()): string {
+  const lines = [formatFile(f)];
+  if (f.fileName && f.displayName && f.fileName !== f.displayName) lines.push(`  file name: ${f.fileName}`);
+  if (f.isServerPack) {
+    lines.push(`  server pack${f.parentProjectFileId ? ` of file ${f.parentProjectFileId}` : ""}`);
+  } else if (f.serverPackFileId) {
+    lines.push(`  server pack: file ${f.serverPackFileId}`);
+  }
+  if (f.alternateFileId) lines.push(`  alternate file: ${f.alternateFileId}`);
+  if (f.isAvailable === false) lines.push("  not available (unpublished or under review)");
+  for (const h of f.hashes ?? []) {
+    lines.push(`  ${HASH_ALGOS[h.algo] ?? `hash(${h.algo})`}: ${h.value}`);
+  }
+  if (f.fileFingerprint) lines.push(`  fingerprint: ${f.fileFingerprint}`);
+  if (f.dependencies?.length) {
+    lines.push(`  dependencies (${f.dependencies.length}):`);
+    for (const d of f.dependencies) {
+      const name = modNames.get(d.modId);
+      lines.push(`    - ${RELATION_LABELS[d.relationType] ?? d.relationType}: ${name ? `${name} [${d.modId}]` : `[${d.modId}]`}`);
+    }
+  }
+  if (f.modules?.length) {
+    const shown = f.modules.slice(0, 20).map((m: any) => m.name);
+    lines.push(`  modules (${f.modules.length}): ${shown.join(", ")}${f.modules.length > shown.length ? ", …" : ""}`);
+  }
+  return lines.join("\n");
+}
+
 export function formatComment(c: any): string {
   const author = c.author?.displayName || c.author?.username || "?";
   const date = c.datePosted ? fmtDate(new Date(c.datePosted)) : "?";
@@ -0,0 +1,88 @@
+import { readdir } from "node:fs/promises";
+import path from "node:path";
+import type { CoreApiClient } from "../clients/curseforge-client.js";
+import { chunk } from "./helpers.js";
+import { fingerprintFile } from "./fingerprint.js";
+
+const FINGERPRINT_BATCH_SIZE = 500;
+
+export type MatchKind = "exact" | "partial" | "unknown";
+
+export interface LocalModFile {
+  path: string;
+  fileName: string;
+  fingerprint: number;
+  match: MatchKind;
+  /** CurseForge project ID — set for exact and partial matches */
+  modId?: number;
+  /** Matched CurseForge file */
+  file?: any;
+  /** Latest files of the matched project, as returned by the fingerprint endpoint */
+  latestFiles?: any[];
+}
+
+export interface ScanOptions {
+  recursive?: boolean;
+  /** Lower-case extensions including the dot, e.g. [".jar"]. Empty/undefined = every file. */
+  extensions?: string[];
+}
+
+/** List regular files in a directory, optionally recursing and filtering by extension.
+ *  Walks folders itself — readdir's `recursive` and Dirent.parentPath need Node 20. */
+export async function listLocalFiles(directory: string, options: ScanOptions = {}): Promise<string[]> {
+  const exts = options.extensions?.map((e) => e.toLowerCase());
+  const files: string[] = [];
+  const walk = async (dir: string): Promise<void> => {
+    for (const e of await readdir(dir, { withFileTypes: true })) {
+      const full = path.join(dir, e.name);
+      if (e.isDirectory() && options.recursive) await walk(full);
+      else if (e.isFile() && (!exts?.length || exts.includes(path.extname(e.name).toLowerCase()))) files.push(full);
+    }
+  };
+  await walk(directory);
+  return files.sort();
+}
+
+/** Fingerprint every file in `directory` and match them against CurseForge. */
+export async function identifyLocalFiles(
+  client: CoreApiClient,
+  directory: string,
+  options: ScanOptions = {},
+): Promise<LocalModFile[]> {
+  const paths = await listLocalFiles(directory, options);
+  const files: LocalModFile[] = [];
+  for (const p of paths) {
+    files.push({
+      path: p,
+      fileName: path.basename(p),
+      fingerprint: await fingerprintFile(p),
+      match: "unknown",
+    });
+  }
+
+  const fingerprints = [...new Set(files.map((f) => f.fingerprint))];
+  for (const batch of chunk(fingerprints, FINGERPRINT_BATCH_SIZE)) {
+    const result: any = await client.getFingerprintMatches(batch);
+    const partialIndex: Record<string, number[]> = result.partialMatchFingerprints ?? {};
+
+    for (const local of files) {
+      if (!batch.includes(local.fingerprint)) continue;
+      const exact = result.exactMatches?.find((m: any) => m.file?.fileFingerprint === local.fingerprint);
+      const partial = exact
+        ? undefined
+        : result.partialMatches?.find(
+          (m: any) =>
+            m.file?.fileFingerprint === local.fingerprint ||
+            partialIndex[m.file?.id]?.includes(local.fingerprint),
+        );
+      const hit = exact ?? partial;
+      if (hit) {
+        local.match = exact ? "exact" : "partial";
+        local.modId = hit.id ?? hit.file?.modId;
+        local.file = hit.file;
+        local.latestFiles = hit.latestFiles ?? [];
+      }
+    }
+  }
+  return files;
+}
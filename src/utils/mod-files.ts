@@ -0,0 +1,105 @@
+import type { CoreApiClient } from "../clients/curseforge-client.js";
+import { chunk, releaseTypesFor, type ReleaseChannel } from "./helpers.js";
+
+const PAGE_SIZE = 50;
+const MODS_BATCH_SIZE = 50;
+/** The search endpoint rejects index + pageSize beyond this */
+export const SEARCH_INDEX_LIMIT = 10_000;
+
+export interface FileFilter {
+  gameVersion?: string;
+  modLoaderType?: number;
+  channel?: ReleaseChannel;
+}
+
+/** Timestamp of a file's fileDate — Date from the API client, string once serialized. */
+export function fileTime(f: any): number {
+  return f?.fileDate ? new Date(f.fileDate).getTime() : 0;
+}
+
+/** Fetch mods in getMods batches, keyed by ID. IDs the API does not return are absent. */
+export async function fetchModsById(client: CoreApiClient, modIds: number[]): Promise<Map<number, any>> {
+  const mods = new Map<number, any>();
+  for (const ids of chunk([...new Set(modIds)], MODS_BATCH_SIZE)) {
+    for (const m of await client.getMods(ids)) mods.set(m.id, m);
+  }
+  return mods;
+}
+
+type SearchOptions = Parameters<CoreApiClient["searchMods"]>[1];
+
+/** Collect up to `maxResults` search results starting at `options.index`,
+ *  paging 50 at a time and stopping at the API's 10k index limit. */
+export async function searchAllMods(
+  client: CoreApiClient,
+  gameId: number,
+  options: SearchOptions,
+  maxResults: number,
+): Promise<{ mods: any[]; totalCount: number; start: number; capped: boolean }> {
+  const start = options.index ?? 0;
+  const mods: any[] = [];
+  let totalCount = 0;
+  let index = start;
+  while (mods.length < maxResults) {
+    const pageSize = Math.min(PAGE_SIZE, maxResults - mods.length, SEARCH_INDEX_LIMIT - index);
+    if (pageSize <= 0) break;
+    const page = await client.searchMods(gameId, { ...options, index, pageSize });
+    totalCount = page.pagination.totalCount;
+    mods.push(...page.data);
+    index += page.data.length;
+    if (page.data.length < pageSize || index >= totalCount) break;
+  }
+  const capped = index >= SEARCH_INDEX_LIMIT && totalCount > SEARCH_INDEX_LIMIT && mods.length < maxResults;
+  return { mods, totalCount, start, capped };
+}
+
+/** Fetch every file of a mod matching the filter, paging through getModFiles. */
+export async function fetchAllModFiles(
+  client: CoreApiClient,
+  modId: number,
+  filter: FileFilter = {},
+  limit: number = 10_000,
+): Promise<any[]> {
+  const allowed = filter.channel ? releaseTypesFor(filter.channel) : null;
+  const files: any[] = [];
+  for (let index = 0; index < limit; index += PAGE_SIZE) {
+    const page = await client.getModFiles(modId, {
+      gameVersion: filter.gameVersion,
+      modLoaderType: filter.modLoaderType,
+      index,
+      pageSize: PAGE_SIZE,
+    });
+    for (const f of page.data as any[]) {
+      if (!allowed || allowed.includes(f.releaseType)) files.push(f);
+    }
+    if (page.data.length < PAGE_SIZE || index + PAGE_SIZE >= page.pagination.totalCount) break;
+  }
+  return files;
+}
+
+/** Newest file (by fileDate) matching the filter, or null if the mod has none.
+ *  Stops paging at the first page containing a match — the API lists newest first. */
+export async function findNewestFile(
+  client: CoreApiClient,
+  modId: number,
+  filter: FileFilter,
+): Promise<any | null> {
+  const allowed = filter.channel ? releaseTypesFor(filter.channel) : null;
+  for (let index = 0; ; index += PAGE_SIZE) {
+    const page = await client.getModFiles(modId, {
+      gameVersion: filter.gameVersion,
+      modLoaderType: filter.modLoaderType,
+      index,
+      pageSize: PAGE_SIZE,
+    });
+    const matches = (page.data as any[]).filter(
+      (f) => f.isAvailable !== false && (!allowed || allowed.includes(f.releaseType)),
+    );
+    if (matches.length) {
+      return matches.reduce((best, f) => (fileTime(f) > fileTime(best) ? f : best));
+    }
+    if (page.data.length < PAGE_SIZE || index + PAGE_SIZE >= page.pagination.totalCount) {
+      return null;
+    }
+  }
+}
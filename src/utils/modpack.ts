@@ -0,0 +1,212 @@
+import { existsSync } from "node:fs";
+import { cp, mkdir, readFile, rm, stat, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { CoreApiClient } from "../clients/curseforge-client.js";
+import { chunk } from "./helpers.js";
+import { listLocalFiles } from "./local-mods.js";
+import { fetchModsById } from "./mod-files.js";
+import type { ModpackManifest } from "./types.js";
+import { ZipReader, ZipWriter } from "./zip.js";
+
+const FILES_CONCURRENCY = 8;
+
+/** Instance sub-folder per Minecraft project class. Unknown classes go to mods/. */
+const CLASS_FOLDERS: Record<number, string> = {
+  6: "mods",
+  12: "resourcepacks",
+  6552: "shaderpacks",
+};
+
+export interface LoadedModpack {
+  manifest: ModpackManifest;
+  /** Open reader when loaded from a .zip — call closeModpack() when done */
+  zip: ZipReader | null;
+  /** Directory containing manifest.json when loaded from disk */
+  baseDir: string | null;
+}
+
+/** A local file to pack under overrides/ — `target` is relative to the overrides folder. */
+export interface ModpackOverride {
+  source: string;
+  target: string;
+}
+
+export type ModpackFileStatus = "ok" | "restricted" | "missing" | "removed";
+
+export interface ResolvedModpackFile {
+  projectId: number;
+  fileId: number;
+  required: boolean;
+  status: ModpackFileStatus;
+  mod?: any;
+  file?: any;
+  error?: string;
+}
+
+/** Load a modpack from a .zip, a manifest.json, or a directory containing one. */
+export async function loadModpack(source: string): Promise<LoadedModpack> {
+  if (source.toLowerCase().endsWith(".zip")) {
+    const zip = await ZipReader.open(source);
+    try {
+      const entry = zip.find("manifest.json");
+      if (!entry) throw new Error(`manifest.json not found in ${source}`);
+      const manifest = parseManifest((await zip.read(entry)).toString("utf-8"));
+      return { manifest, zip, baseDir: null };
+    } catch (e) {
+      await zip.close();
+      throw e;
+    }
+  }
+
+  const info = await stat(source);
+  const manifestPath = info.isDirectory() ? path.join(source, "manifest.json") : source;
+  const manifest = parseManifest(await readFile(manifestPath, "utf-8"));
+  return { manifest, zip: null, baseDir: path.dirname(manifestPath) };
+}
+
+export async function closeModpack(pack: LoadedModpack): Promise<void> {
+  await pack.zip?.close();
+}
+
+function parseManifest(json: string): ModpackManifest {
+  const m = JSON.parse(json);
+  if (!Array.isArray(m.files)) {
+    throw new Error("Invalid manifest: missing files array");
+  }
+  return {
+    ...m,
+    minecraft: m.minecraft ?? { version: "", modLoaders: [] },
+    overrides: m.overrides || "overrides",
+    files: m.files.map((f: any) => ({
+      projectID: Number(f.projectID),
+      fileID: Number(f.fileID),
+      required: f.required !== false,
+    })),
+  };
+}
+
+/** Resolve manifest entries against the Core API — mods in getMods batches,
+ *  files via getModFile with bounded concurrency. Never throws per entry;
+ *  failures are reported through `status`. */
+export async function resolveModpackFiles(
+  client: CoreApiClient,
+  entries: ModpackManifest["files"],
+): Promise<ResolvedModpackFile[]> {
+  const mods = await fetchModsById(client, entries.map((e) => e.projectID));
+
+  const resolved: ResolvedModpackFile[] = [];
+  for (const batch of chunk(entries, FILES_CONCURRENCY)) {
+    const results = await Promise.allSettled(
+      batch.map((e) => client.getModFile(e.projectID, e.fileID)),
+    );
+    batch.forEach((e, i) => {
+      const r = results[i];
+      const base = {
+        projectId: e.projectID,
+        fileId: e.fileID,
+        required: e.required,
+        mod: mods.get(e.projectID),
+      };
+      if (!base.mod) {
+        resolved.push({ ...base, status: "missing", error: "project not found" });
+      } else if (r.status === "rejected") {
+        const msg = r.reason instanceof Error ? r.reason.message : String(r.reason);
+        resolved.push({ ...base, status: "missing", error: `file not found (${msg})` });
+      } else {
+        const file: any = r.value;
+        const status: ModpackFileStatus =
+          file.isAvailable === false ? "removed" : file.downloadUrl ? "ok" : "restricted";
+        resolved.push({ ...base, file, status });
+      }
+    });
+  }
+  return resolved;
+}
+
+/** Instance folder (relative) a resolved project's file belongs in. */
+export function installFolder(mod: any): string {
+  return CLASS_FOLDERS[mod?.classId] ?? "mods";
+}
+
+/** Copy the pack's overrides folder into `destination`. Returns the number of files written. */
+export async function extractOverrides(pack: LoadedModpack, destination: string): Promise<number> {
+  const prefix = pack.manifest.overrides.replace(/\/+$/, "") + "/";
+
+  if (pack.zip) {
+    let count = 0;
+    for (const entry of pack.zip.entries) {
+      if (entry.isDirectory || !entry.name.startsWith(prefix)) continue;
+      const target = safeJoin(destination, entry.name.slice(prefix.length));
+      await mkdir(path.dirname(target), { recursive: true });
+      await writeFile(target, await pack.zip.read(entry));
+      count++;
+    }
+    return count;
+  }
+
+  const dir = path.join(pack.baseDir ?? ".", pack.manifest.overrides);
+  if (!existsSync(dir)) return 0;
+  await cp(dir, destination, { recursive: true });
+  return (await listLocalFiles(dir, { recursive: true })).length;
+}
+
+/** Join an archive or API-supplied path onto `root`, rejecting paths that escape it (zip-slip). */
+export function safeJoin(root: string, relative: string): string {
+  const base = path.resolve(root);
+  const target = path.resolve(base, relative);
+  if (target !== base && !target.startsWith(base + path.sep)) {
+    throw new Error(`Refusing to write outside destination: ${relative}`);
+  }
+  return target;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/** modlist.html in the format the CurseForge app exports. */
+export function buildModlistHtml(resolved: ResolvedModpackFile[]): string {
+  const items = resolved.map((r) => {
+    const name = escapeHtml(r.mod?.name ?? `Project ${r.projectId}`);
+    const author = r.mod?.authors?.[0]?.name;
+    const label = author ? `${name} (by ${escapeHtml(author)})` : name;
+    const url = r.mod?.links?.websiteUrl;
+    return url ? `<li><a href="${escapeHtml(url)}">${label}</a></li>` : `<li>${label}</li>`;
+  });
+  return `<ul>\n${items.join("\n")}\n</ul>\n`;
+}
+
+/** Every file under `directory` as an override with the same relative path. */
+export async function collectOverrides(directory: string): Promise<ModpackOverride[]> {
+  const files = await listLocalFiles(directory, { recursive: true });
+  return files.map((source) => ({ source, target: path.relative(directory, source).split(path.sep).join("/") }));
+}
+
+/** Write a CurseForge modpack zip: manifest.json, modlist.html and the overrides folder. */
+export async function writeModpack(
+  outputPath: string,
+  manifest: ModpackManifest,
+  modlistHtml: string,
+  overrides: ModpackOverride[],
+): Promise<void> {
+  await mkdir(path.dirname(outputPath), { recursive: true });
+  const zip = await ZipWriter.create(outputPath);
+  try {
+    await zip.addFile("manifest.json", Buffer.from(JSON.stringify(manifest, null, 2)));
+    await zip.addFile("modlist.html", Buffer.from(modlistHtml));
+    await zip.addDirectory(manifest.overrides);
+    for (const o of overrides) {
+      await zip.addFile(`${manifest.overrides}/${o.target}`, await readFile(o.source));
+    }
+    await zip.close();
+  } catch (e) {
+    // Never leave a truncated pack that looks valid at the output path
+    await zip.abort();
+    await rm(outputPath, { force: true });
+    throw e;
+  }
+}
@@ -0,0 +1,243 @@
+import { readFile, stat } from "node:fs/promises";
+import path from "node:path";
+import { z } from "zod/v4";
+import { listLocalFiles } from "./local-mods.js";
+
+export const RELEASE_CONFIG_FILE = "curseforge.release.json";
+
+type ReleaseType = "release" | "beta" | "alpha";
+
+/** Version suffixes that pick the release type when the config sets none */
+const DEFAULT_RELEASE_TYPE_RULES: Record<string, ReleaseType> = { "-alpha": "alpha", "-beta": "beta" };
+
+const releaseTypeSchema = z.enum(["release", "beta", "alpha"]);
+const changelogTypeSchema = z.enum(["text", "html", "markdown"]);
+
+export const releaseConfigSchema = z.object({
+  projectId: z.union([z.number(), z.string()]).describe("Project ID, slug or URL"),
+  gameSlug: z.string().optional(),
+  version: z.string().optional().describe("Release version — usually passed to publish_release instead"),
+  files: z.object({
+    primary: z.string().describe("Glob for the primary file, must match exactly one file"),
+    additional: z
+      .array(z.union([z.string(), z.object({ glob: z.string(), displayName: z.string().optional() })]))
+      .optional()
+      .default([]),
+  }),
+  displayName: z.string().optional().describe("Template, e.g. \"MyMod {version}\""),
+  releaseType: releaseTypeSchema.optional(),
+  releaseTypeRules: z.record(z.string(), releaseTypeSchema).optional().describe("Version suffix → release type"),
+  gameVersions: z.array(z.union([z.string(), z.number()])).optional().default([]),
+  relations: z
+    .array(
+      z.object({
+        slug: z.string(),
+        type: z.enum(["embeddedLibrary", "incompatible", "optionalDependency", "requiredDependency", "tool"]),
+      }),
+    )
+    .optional()
+    .default([]),
+  changelog: z
+    .union([
+      z.string(),
+      z.object({
+        file: z.string(),
+        /** Only the section whose heading names the version (Keep a Changelog style) */
+        section: z.boolean().optional().default(true),
+      }),
+    ])
+    .optional(),
+  changelogType: changelogTypeSchema.optional(),
+});
+
+export type ReleaseConfig = z.infer<typeof releaseConfigSchema>;
+
+export interface PlannedFile {
+  filePath: string;
+  displayName?: string;
+}
+
+export interface ReleasePlan {
+  projectId: number | string;
+  gameSlug?: string;
+  version?: string;
+  releaseType: ReleaseType;
+  changelog?: string;
+  changelogType: "text" | "html" | "markdown";
+  gameVersions: Array<string | number>;
+  relations: ReleaseConfig["relations"];
+  primary: PlannedFile;
+  additional: PlannedFile[];
+}
+
+export interface ReleaseOverrides {
+  version?: string;
+  changelog?: string;
+  releaseType?: ReleaseType;
+}
+
+/** Read curseforge.release.json from a file path or the directory containing it. */
+export async function loadReleaseConfig(configPath: string): Promise<{ config: ReleaseConfig; dir: string }> {
+  const file = (await stat(configPath)).isDirectory() ? path.join(configPath, RELEASE_CONFIG_FILE) : configPath;
+  let json: unknown;
+  try {
+    json = JSON.parse(await readFile(file, "utf-8"));
+  } catch (e) {
+    throw new Error(`Cannot read ${file}: ${e instanceof Error ? e.message : String(e)}`);
+  }
+  const parsed = releaseConfigSchema.safeParse(json);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((i) => `${i.path.join(".") || "(root)"}: ${i.message}`);
+    throw new Error(`Invalid ${path.basename(file)}: ${issues.join("; ")}`);
+  }
+  return { config: parsed.data, dir: path.dirname(file) };
+}
+
+/** Replace {name} placeholders. Unknown or unset placeholders are an error so
+ *  a typo never ends up in a published display name. */
+export function expandTemplate(template: string, vars: Record<string, string | undefined>): string {
+  return template.replace(/\{(\w+)\}/g, (_, name: string) => {
+    const value = vars[name];
+    if (value === undefined) {
+      const known = Object.keys(vars).filter((k) => vars[k] !== undefined);
+      throw new Error(`Template "${template}" uses {${name}} — available: ${known.map((k) => `{${k}}`).join(", ") || "none"}`);
+    }
+    return value;
+  });
+}
+
+export function releaseTypeFor(version: string | undefined, rules: Record<string, ReleaseType> = DEFAULT_RELEASE_TYPE_RULES): ReleaseType {
+  const v = version?.toLowerCase() ?? "";
+  for (const [suffix, type] of Object.entries(rules)) {
+    if (v.includes(suffix.toLowerCase())) return type;
+  }
+  return "release";
+}
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** The section of a Markdown changelog whose heading mentions `version`,
+ *  up to the next heading of the same or a higher level. */
+export function changelogSection(markdown: string, version: string): string | undefined {
+  const lines = markdown.split(/\r?\n/);
+  const mention = new RegExp(`(^|[^\\w.])v?${escapeRegExp(version)}([^\\w.]|$)`, "i");
+  const start = lines.findIndex((l) => /^#{1,6}\s/.test(l) && mention.test(l.replace(/^#+\s*/, "")));
+  if (start < 0) return undefined;
+  const level = lines[start].match(/^#+/)![0].length;
+  const end = lines.findIndex((l, i) => i > start && (l.match(/^(#{1,6})\s/)?.[1].length ?? 7) <= level);
+  return lines.slice(start + 1, end < 0 ? undefined : end).join("\n").trim();
+}
+
+function globToRegExp(glob: string): RegExp {
+  let re = "";
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i];
+    if (c === "*" && glob[i + 1] === "*") {
+      const slash = glob[i + 2] === "/";
+      re += slash ? "(?:.*/)?" : ".*";
+      i += slash ? 2 : 1;
+    } else if (c === "*") {
+      re += "[^/]*";
+    } else if (c === "?") {
+      re += "[^/]";
+    } else {
+      re += escapeRegExp(c);
+    }
+  }
+  return new RegExp(`^${re}$`);
+}
+
+/** Files matching a glob (*, ?, **) relative to `dir`, sorted. */
+export async function expandGlob(dir: string, pattern: string): Promise<string[]> {
+  const absolute = path.resolve(dir, pattern).split(path.sep).join("/");
+  const segments = absolute.split("/");
+  const firstWild = segments.findIndex((s) => /[*?]/.test(s));
+  if (firstWild < 0) {
+    try {
+      return (await stat(absolute)).isFile() ? [path.normalize(absolute)] : [];
+    } catch {
+      return [];
+    }
+  }
+  const base = segments.slice(0, firstWild).join("/") || "/";
+  const rest = segments.slice(firstWild).join("/");
+  const matcher = globToRegExp(rest);
+  let files: string[];
+  try {
+    files = await listLocalFiles(base, { recursive: rest.includes("/") || rest.includes("**") });
+  } catch {
+    return [];
+  }
+  return files.filter((f) => matcher.test(path.relative(base, f).split(path.sep).join("/")));
+}
+
+/** Resolve globs, templates, release type and changelog into concrete upload inputs. */
+export async function planRelease(config: ReleaseConfig, dir: string, overrides: ReleaseOverrides = {}): Promise<ReleasePlan> {
+  const version = overrides.version ?? config.version;
+  const releaseType = overrides.releaseType ?? config.releaseType ?? releaseTypeFor(version, config.releaseTypeRules);
+  const baseVars = {
+    version,
+    releaseType,
+    gameVersions: config.gameVersions.length ? config.gameVersions.join(", ") : undefined,
+    gameVersion: config.gameVersions.length ? String(config.gameVersions[0]) : undefined,
+    date: new Date().toISOString().slice(0, 10),
+  };
+
+  const primaryMatches = await expandGlob(dir, expandTemplate(config.files.primary, baseVars));
+  if (primaryMatches.length !== 1) {
+    throw new Error(`files.primary "${config.files.primary}" matched ${primaryMatches.length} files${primaryMatches.length ? `: ${primaryMatches.join(", ")}` : ""} — it must match exactly one`);
+  }
+  const primaryPath = primaryMatches[0];
+  const fileVars = (filePath: string) => ({ ...baseVars, fileName: path.basename(filePath, path.extname(filePath)) });
+
+  const additional: PlannedFile[] = [];
+  const seen = new Set([primaryPath]);
+  for (const entry of config.files.additional) {
+    const { glob, displayName } = typeof entry === "string" ? { glob: entry, displayName: undefined } : entry;
+    const matches = await expandGlob(dir, expandTemplate(glob, baseVars));
+    if (!matches.length) throw new Error(`files.additional "${glob}" matched no files`);
+    for (const filePath of matches) {
+      if (seen.has(filePath)) continue;
+      seen.add(filePath);
+      additional.push({ filePath, displayName: displayName ? expandTemplate(displayName, fileVars(filePath)) : undefined });
+    }
+  }
+
+  let changelog = overrides.changelog;
+  let changelogType = config.changelogType;
+  const source = config.changelog;
+  if (changelog === undefined && source !== undefined) {
+    if (typeof source === "string") {
+      changelog = expandTemplate(source, baseVars);
+    } else {
+      const file = path.resolve(dir, source.file);
+      const text = await readFile(file, "utf-8");
+      if (source.section) {
+        if (!version) throw new Error("changelog.section needs a version — pass version or set it in the config");
+        changelog = changelogSection(text, version);
+        if (changelog === undefined) throw new Error(`No section for version ${version} in ${source.file}`);
+      } else {
+        changelog = text;
+      }
+      changelogType ??= /\.html?$/i.test(file) ? "html" : /\.(md|markdown)$/i.test(file) ? "markdown" : "text";
+    }
+  }
+
+  return {
+    projectId: config.projectId,
+    gameSlug: config.gameSlug,
+    version,
+    releaseType,
+    changelog,
+    changelogType: changelogType ?? "markdown",
+    gameVersions: config.gameVersions,
+    relations: config.relations,
+    primary: {
+      filePath: primaryPath,
+      displayName: config.displayName ? expandTemplate(config.displayName, fileVars(primaryPath)) : undefined,
+    },
+    additional,
+  };
+}
@@ -0,0 +1,182 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import type { ToolResult } from "./types.js";
+
+/** Per-host limits for outbound HTTP. Every field can be overridden through
+ *  CURSEFORGE_HTTP_POLICY, e.g. {"api.cfwidget.com":{"ratePerSecond":1}}. */
+export interface HostPolicy {
+  /** Sustained requests per second (token refill rate) */
+  ratePerSecond: number;
+  /** Bucket size — requests allowed in a burst */
+  burst: number;
+  /** Retries after the first attempt for 429/5xx/network errors */
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  /** How often to re-poll a 202 "queued" response (CFWidget) */
+  pollIntervalMs: number;
+  maxPolls: number;
+}
+
+export interface RetryEvent {
+  host: string;
+  attempt: number;
+  reason: string;
+  delayMs: number;
+}
+
+const DEFAULT_POLICY: HostPolicy = {
+  ratePerSecond: 5,
+  burst: 10,
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 15_000,
+  pollIntervalMs: 2_000,
+  maxPolls: 10,
+};
+
+const HOST_DEFAULTS: Record<string, Partial<HostPolicy>> = {
+  "api.curseforge.com": { ratePerSecond: 10, burst: 20 },
+  "api.cfwidget.com": { ratePerSecond: 2, burst: 4 },
+};
+
+const RETRYABLE_STATUS = new Set([408, 425, 429, 500, 502, 503, 504]);
+const RETRY_AFTER_CAP_MS = 60_000;
+
+class TokenBucket {
+  private tokens: number;
+  private updated = Date.now();
+
+  constructor(private rate: number, private capacity: number) {
+    this.tokens = capacity;
+  }
+
+  async take(): Promise<void> {
+    for (;;) {
+      const now = Date.now();
+      this.tokens = Math.min(this.capacity, this.tokens + ((now - this.updated) / 1000) * this.rate);
+      this.updated = now;
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        return;
+      }
+      await sleep(Math.ceil(((1 - this.tokens) / this.rate) * 1000));
+    }
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/** Retry-After as milliseconds — accepts delta-seconds or an HTTP date. */
+function retryAfterMs(res: Response): number | null {
+  const header = res.headers.get("retry-after");
+  if (!header) return null;
+  const seconds = Number(header);
+  const ms = Number.isFinite(seconds) ? seconds * 1000 : new Date(header).getTime() - Date.now();
+  return Number.isFinite(ms) ? Math.min(Math.max(ms, 0), RETRY_AFTER_CAP_MS) : null;
+}
+
+const retryLog = new AsyncLocalStorage<RetryEvent[]>();
+
+/** Run `fn` and collect every retry the request policy performed on its behalf. */
+export async function collectRetries<T>(fn: () => Promise<T>): Promise<{ result: T; retries: RetryEvent[] }> {
+  const retries: RetryEvent[] = [];
+  const result = await retryLog.run(retries, fn);
+  return { result, retries };
+}
+
+export function formatRetries(events: RetryEvent[]): string {
+  const byHost = new Map<string, string[]>();
+  for (const e of events) {
+    byHost.set(e.host, [...(byHost.get(e.host) ?? []), e.reason]);
+  }
+  const parts = [...byHost].map(([host, reasons]) => `${host} ×${reasons.length} (${reasons.join(", ")})`);
+  return `Retries: ${parts.join("; ")}`;
+}
+
+/** Wrap a tool handler so retries made during the call are reported: as a
+ *  trailing text line, or under `_meta.retries` when the result carries
+ *  structuredContent (whose text should stay in step with the structured data). */
+export function withRetryReport<A extends unknown[]>(
+  handler: (...args: A) => Promise<ToolResult>,
+): (...args: A) => Promise<ToolResult> {
+  return async (...args) => {
+    const { result, retries } = await collectRetries(() => handler(...args));
+    if (!retries.length) return result;
+    if (result.structuredContent) {
+      return { ...result, _meta: { ...(result._meta as Record<string, unknown> | undefined), retries: formatRetries(retries) } };
+    }
+    return { ...result, content: [...result.content, { type: "text", text: formatRetries(retries) }] };
+  };
+}
+
+export class RequestPolicy {
+  private overrides: Record<string, Partial<HostPolicy>> = {};
+  private buckets = new Map<string, TokenBucket>();
+
+  configure(overrides: Record<string, Partial<HostPolicy>>): void {
+    this.overrides = overrides;
+    this.buckets.clear();
+  }
+
+  policyFor(host: string): HostPolicy {
+    return { ...DEFAULT_POLICY, ...HOST_DEFAULTS[host], ...this.overrides[host] };
+  }
+
+  /** fetch() with rate limiting, retries on 429/5xx/network errors (honouring
+   *  Retry-After, otherwise exponential backoff with full jitter) and, when
+   *  `poll202` is set, re-polling of 202 "queued" responses. */
+  async fetch(url: string | URL, init?: RequestInit, options: { poll202?: boolean } = {}): Promise<Response> {
+    const host = new URL(url).hostname;
+    const policy = this.policyFor(host);
+    let bucket = this.buckets.get(host);
+    if (!bucket) {
+      bucket = new TokenBucket(policy.ratePerSecond, policy.burst);
+      this.buckets.set(host, bucket);
+    }
+
+    let attempt = 0;
+    let polls = 0;
+    for (;;) {
+      await bucket.take();
+      let reason: string;
+      let delayMs: number;
+      try {
+        const res = await fetch(url, init);
+        if (res.status === 202 && options.poll202 && polls < policy.maxPolls) {
+          polls++;
+          await res.body?.cancel().catch(() => {});
+          delayMs = retryAfterMs(res) ?? policy.pollIntervalMs;
+          this.record({ host, attempt: polls, reason: "202 queued", delayMs });
+          await sleep(delayMs);
+          continue;
+        }
+        if (!RETRYABLE_STATUS.has(res.status) || attempt >= policy.maxRetries) return res;
+        await res.body?.cancel().catch(() => {});
+        reason = `HTTP ${res.status}`;
+        delayMs = retryAfterMs(res) ?? this.backoff(policy, attempt);
+      } catch (e) {
+        if (attempt >= policy.maxRetries || init?.signal?.aborted) throw e;
+        reason = `network error: ${e instanceof Error ? e.message : String(e)}`;
+        delayMs = this.backoff(policy, attempt);
+      }
+      attempt++;
+      this.record({ host, attempt, reason, delayMs });
+      await sleep(delayMs);
+    }
+  }
+
+  private backoff(policy: HostPolicy, attempt: number): number {
+    const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+    return Math.round(Math.random() * ceiling);
+  }
+
+  private record(event: RetryEvent): void {
+    retryLog.getStore()?.push(event);
+    console.error(`[http] ${event.host}: ${event.reason}, retry ${event.attempt} in ${event.delayMs}ms`);
+  }
+}
+
+/** Shared by every outbound client (Core API, CFWidget, downloads, safeFetch). */
+export const httpPolicy = new RequestPolicy();
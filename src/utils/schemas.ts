@@ -0,0 +1,273 @@
+import { z } from "zod/v4";
+import { RELEASE_LABELS, RELATION_LABELS } from "./helpers.js";
+import { HASH_ALGOS } from "./download.js";
+import type { CategoryNode } from "./categories.js";
+
+/** Output schemas for structuredContent, plus mappers from raw API objects.
+ *  Mappers accept both curseforge-api class instances and cached plain JSON. */
+
+/** Input: anything ProjectResolver accepts in place of a numeric mod ID */
+export const modRefSchema = z
+  .union([z.number(), z.string()])
+  .describe('Mod ID, slug, curseforge.com project/file URL or path like "minecraft/mc-mods/jei"');
+
+export const paginationSchema = z.object({
+  index: z.number(),
+  pageSize: z.number(),
+  resultCount: z.number(),
+  totalCount: z.number(),
+});
+
+export const modSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  slug: z.string().optional(),
+  summary: z.string().optional(),
+  downloadCount: z.number(),
+  authors: z.array(z.string()),
+  categories: z.array(z.string()),
+  dateModified: z.string().optional(),
+  websiteUrl: z.string().optional(),
+});
+
+export const fileIndexSchema = z.object({
+  gameVersion: z.string().optional(),
+  fileId: z.number(),
+  fileName: z.string().optional(),
+  releaseType: z.string(),
+  modLoader: z.number().optional(),
+});
+
+export const modDetailSchema = modSchema.extend({
+  gameId: z.number().optional(),
+  classId: z.number().optional(),
+  gamePopularityRank: z.number().optional(),
+  links: z.object({
+    websiteUrl: z.string().optional(),
+    wikiUrl: z.string().optional(),
+    issuesUrl: z.string().optional(),
+    sourceUrl: z.string().optional(),
+  }),
+  logoUrl: z.string().optional(),
+  dateCreated: z.string().optional(),
+  dateReleased: z.string().optional(),
+  mainFileId: z.number().optional(),
+  allowModDistribution: z.boolean().optional(),
+  latestFilesIndexes: z.array(fileIndexSchema),
+});
+
+export const fileSchema = z.object({
+  id: z.number(),
+  modId: z.number().optional(),
+  displayName: z.string().optional(),
+  fileName: z.string(),
+  releaseType: z.string(),
+  fileLength: z.number(),
+  downloadCount: z.number(),
+  fileDate: z.string().optional(),
+  gameVersions: z.array(z.string()),
+  downloadUrl: z.string().optional(),
+});
+
+export const fileDetailSchema = fileSchema.extend({
+  isAvailable: z.boolean().optional(),
+  isServerPack: z.boolean().optional(),
+  serverPackFileId: z.number().optional(),
+  parentProjectFileId: z.number().optional(),
+  alternateFileId: z.number().optional(),
+  fileFingerprint: z.number().optional(),
+  hashes: z.array(z.object({ algo: z.string(), value: z.string() })),
+  dependencies: z.array(
+    z.object({
+      modId: z.number(),
+      name: z.string().optional(),
+      relation: z.string(),
+    }),
+  ),
+  modules: z.array(z.object({ name: z.string(), fingerprint: z.number().optional() })),
+});
+
+export const gameSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  slug: z.string().optional(),
+});
+
+export const categorySchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  slug: z.string().optional(),
+  classId: z.number().optional(),
+  parentCategoryId: z.number().optional(),
+  isClass: z.boolean(),
+});
+
+export const categoryNodeSchema = categorySchema.extend({
+  path: z.array(z.string()).describe("Names from the class down to this node"),
+});
+
+export const projectSchema = z.object({
+  id: z.number(),
+  title: z.string(),
+  summary: z.string().optional(),
+  game: z.string().optional(),
+  type: z.string().optional(),
+  downloads: z.number().optional(),
+  url: z.string().optional(),
+});
+
+const commentBaseSchema = z.object({
+  id: z.number(),
+  author: z.string(),
+  datePosted: z.string().optional(),
+  text: z.string(),
+});
+
+export const commentSchema = commentBaseSchema.extend({
+  replies: z.array(commentBaseSchema),
+});
+
+export type ModSummary = z.infer<typeof modSchema>;
+export type ModDetail = z.infer<typeof modDetailSchema>;
+export type FileSummary = z.infer<typeof fileSchema>;
+export type FileDetail = z.infer<typeof fileDetailSchema>;
+export type Comment = z.infer<typeof commentSchema>;
+
+function iso(d: unknown): string | undefined {
+  if (!d) return undefined;
+  const date = d instanceof Date ? d : new Date(String(d));
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+/** null → undefined, so optional schema fields validate */
+function opt<T>(v: T | null | undefined): T | undefined {
+  return v ?? undefined;
+}
+
+export function toPagination(p: any): z.infer<typeof paginationSchema> {
+  return {
+    index: p?.index ?? 0,
+    pageSize: p?.pageSize ?? 0,
+    resultCount: p?.resultCount ?? 0,
+    totalCount: p?.totalCount ?? 0,
+  };
+}
+
+export function toModSummary(m: any): ModSummary {
+  return {
+    id: m.id,
+    name: m.name,
+    slug: opt(m.slug),
+    summary: opt(m.summary),
+    downloadCount: m.downloadCount || 0,
+    authors: (m.authors ?? []).map((a: any) => a.name || String(a)),
+    categories: (m.categories ?? []).map((c: any) => c.name || String(c)),
+    dateModified: iso(m.dateModified),
+    websiteUrl: opt(m.links?.websiteUrl),
+  };
+}
+
+export function toModDetail(m: any): ModDetail {
+  return {
+    ...toModSummary(m),
+    gameId: opt(m.gameId),
+    classId: opt(m.classId),
+    gamePopularityRank: opt(m.gamePopularityRank),
+    links: {
+      websiteUrl: opt(m.links?.websiteUrl),
+      wikiUrl: m.links?.wikiUrl || undefined,
+      issuesUrl: m.links?.issuesUrl || undefined,
+      sourceUrl: m.links?.sourceUrl || undefined,
+    },
+    logoUrl: opt(m.logo?.thumbnailUrl),
+    dateCreated: iso(m.dateCreated),
+    dateReleased: iso(m.dateReleased),
+    mainFileId: opt(m.mainFileId),
+    allowModDistribution: opt(m.allowModDistribution),
+    latestFilesIndexes: (m.latestFilesIndexes ?? []).map((f: any) => ({
+      gameVersion: opt(f.gameVersion),
+      fileId: f.fileId,
+      fileName: opt(f.filename),
+      releaseType: RELEASE_LABELS[f.releaseType] || String(f.releaseType),
+      modLoader: opt(f.modLoader),
+    })),
+  };
+}
+
+export function toFileSummary(f: any): FileSummary {
+  return {
+    id: f.id,
+    modId: opt(f.modId),
+    displayName: opt(f.displayName),
+    fileName: f.fileName ?? "",
+    releaseType: RELEASE_LABELS[f.releaseType] || String(f.releaseType ?? "?"),
+    fileLength: f.fileLength || 0,
+    downloadCount: f.downloadCount || 0,
+    fileDate: iso(f.fileDate),
+    gameVersions: f.gameVersions ?? [],
+    downloadUrl: opt(f.downloadUrl),
+  };
+}
+
+export function toFileDetail(f: any, modNames: Map<number, string> = new Map()): FileDetail {
+  return {
+    ...toFileSummary(f),
+    isAvailable: opt(f.isAvailable),
+    isServerPack: opt(f.isServerPack),
+    serverPackFileId: f.serverPackFileId || undefined,
+    parentProjectFileId: f.parentProjectFileId || undefined,
+    alternateFileId: f.alternateFileId || undefined,
+    fileFingerprint: opt(f.fileFingerprint),
+    hashes: (f.hashes ?? []).map((h: any) => ({ algo: HASH_ALGOS[h.algo] ?? String(h.algo), value: h.value })),
+    dependencies: (f.dependencies ?? []).map((d: any) => ({
+      modId: d.modId,
+      name: modNames.get(d.modId),
+      relation: RELATION_LABELS[d.relationType] ?? String(d.relationType),
+    })),
+    modules: (f.modules ?? []).map((m: any) => ({ name: m.name, fingerprint: opt(m.fingerprint) })),
+  };
+}
+
+export function toGame(g: any): z.infer<typeof gameSchema> {
+  return { id: g.id, name: g.name, slug: opt(g.slug) };
+}
+
+export function toCategory(c: any): z.infer<typeof categorySchema> {
+  return {
+    id: c.id,
+    name: c.name,
+    slug: opt(c.slug),
+    classId: opt(c.classId),
+    parentCategoryId: opt(c.parentCategoryId),
+    isClass: Boolean(c.isClass),
+  };
+}
+
+export function toCategoryNode(n: CategoryNode): z.infer<typeof categoryNodeSchema> {
+  return { ...toCategory(n), path: n.path };
+}
+
+export function toProject(p: any): z.infer<typeof projectSchema> {
+  return {
+    id: p.id,
+    title: p.title || p.name || "",
+    summary: opt(p.summary),
+    game: opt(p.game),
+    type: opt(p.type),
+    downloads: opt(p.downloads?.total),
+    url: opt(p.urls?.curseforge),
+  };
+}
+
+function toCommentBase(c: any): z.infer<typeof commentBaseSchema> {
+  return {
+    id: c.id,
+    author: c.author?.displayName || c.author?.username || "?",
+    datePosted: iso(c.datePosted),
+    text: c.text || c.body || "",
+  };
+}
+
+export function toComment(c: any): Comment {
+  return { ...toCommentBase(c), replies: (c.replies ?? []).map(toCommentBase) };
+}
@@ -1,6 +1,7 @@
 export interface ToolResult {
   [key: string]: unknown;
   content: Array<{ type: "text"; text: string }>;
+  structuredContent?: Record<string, unknown>;
   isError?: boolean;
 }
 
@@ -24,6 +25,20 @@ export interface UploadMetadata {
   };
 }
 
+export interface ModpackManifest {
+  minecraft: {
+    version: string;
+    modLoaders: Array<{ id: string; primary: boolean }>;
+  };
+  manifestType: string;
+  manifestVersion: number;
+  name: string;
+  version: string;
+  author: string;
+  files: Array<{ projectID: number; fileID: number; required: boolean }>;
+  overrides: string;
+}
+
 export interface CookieEntry {
   name: string;
   value: string;
@@ -31,8 +46,9 @@ export interface CookieEntry {
   path: string;
 }
 
-export function success(text: string): ToolResult {
-  return { content: [{ type: "text", text }] };
+/** `structured` becomes structuredContent and must match the tool's outputSchema. */
+export function success(text: string, structured?: Record<string, unknown>): ToolResult {
+  return structured ? { content: [{ type: "text", text }], structuredContent: structured } : { content: [{ type: "text", text }] };
 }
 
 export function error(text: string): ToolResult {
@@ -0,0 +1,76 @@
+import { stat } from "node:fs/promises";
+import path from "node:path";
+import { stripHtml } from "./helpers.js";
+
+/** Extensions CurseForge projects normally ship — anything else only warns */
+const KNOWN_EXTENSIONS = [".jar", ".zip", ".litemod", ".mcpack", ".mcaddon", ".mcworld", ".mctemplate", ".rar", ".7z"];
+/** HTML elements that never have a closing tag */
+const VOID_ELEMENTS = new Set(["area", "base", "br", "col", "embed", "hr", "img", "input", "link", "meta", "source", "track", "wbr"]);
+
+export interface UploadProblems {
+  errors: string[];
+  warnings: string[];
+}
+
+/** Check the file exists, is a non-empty regular file and has a usual extension. */
+export async function checkUploadFile(filePath: string, problems: UploadProblems): Promise<number | undefined> {
+  let info;
+  try {
+    info = await stat(filePath);
+  } catch {
+    problems.errors.push(`file not found: ${filePath}`);
+    return undefined;
+  }
+  if (!info.isFile()) {
+    problems.errors.push(`not a regular file: ${filePath}`);
+    return undefined;
+  }
+  if (info.size === 0) problems.errors.push(`file is empty: ${filePath}`);
+  const ext = path.extname(filePath).toLowerCase();
+  if (!KNOWN_EXTENSIONS.includes(ext)) {
+    problems.warnings.push(`unusual file extension "${ext || "(none)"}" — expected one of ${KNOWN_EXTENSIONS.join(", ")}`);
+  }
+  return info.size;
+}
+
+/** Tags opened but never closed (or closed without being opened), in document order. */
+function unbalancedTags(html: string): string[] {
+  const stack: string[] = [];
+  const stray: string[] = [];
+  for (const m of html.matchAll(/<(\/?)([a-zA-Z][a-zA-Z0-9]*)\b[^>]*?(\/?)>/g)) {
+    const [, closing, rawName, selfClosing] = m;
+    const name = rawName.toLowerCase();
+    if (VOID_ELEMENTS.has(name) || selfClosing) continue;
+    if (!closing) {
+      stack.push(name);
+    } else if (stack.lastIndexOf(name) >= 0) {
+      // Anything opened after the matching tag was never closed
+      stray.push(...stack.splice(stack.lastIndexOf(name)).slice(1).map((t) => `<${t}>`));
+    } else {
+      stray.push(`</${name}>`);
+    }
+  }
+  return [...stack.map((t) => `<${t}>`), ...stray];
+}
+
+/** Warnings about how the changelog will render for its changelog_type. */
+export function checkChangelog(changelog: string | undefined, type: "text" | "html" | "markdown", problems: UploadProblems): void {
+  if (!changelog?.trim()) {
+    problems.warnings.push("changelog is empty");
+    return;
+  }
+  const hasHtml = /<\/?[a-zA-Z][^>]*>/.test(changelog);
+  const hasMarkdown = /(^|\n)\s*(#{1,6} |[-*] |\d+\. |```)|\*\*[^*]+\*\*|\[[^\]]+\]\([^)]+\)/.test(changelog);
+
+  if (type === "html") {
+    const unbalanced = unbalancedTags(changelog);
+    if (unbalanced.length) problems.errors.push(`changelog HTML has unbalanced tags: ${unbalanced.join(", ")}`);
+    if (!stripHtml(changelog).trim()) problems.warnings.push("changelog HTML has no visible text");
+    if (!hasHtml && hasMarkdown) problems.warnings.push("changelog looks like Markdown but changelog_type is html — it will render as one paragraph");
+  } else if (type === "markdown") {
+    if ((changelog.match(/```/g)?.length ?? 0) % 2) problems.errors.push("changelog Markdown has an unclosed ``` code fence");
+    if (hasHtml) problems.warnings.push("changelog Markdown contains HTML tags — CurseForge may show them literally");
+  } else if (hasHtml || hasMarkdown) {
+    problems.warnings.push(`changelog contains ${hasHtml ? "HTML" : "Markdown"} but changelog_type is text — it will be shown literally`);
+  }
+}
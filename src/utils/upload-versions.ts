@@ -0,0 +1,71 @@
+/** Upload API game version entry — `gameVersionTypeID` points into the version-type list. */
+export interface UploadGameVersion {
+  id: number;
+  gameVersionTypeID: number;
+  name: string;
+  slug: string;
+}
+
+export interface UploadGameVersionType {
+  id: number;
+  name: string;
+  slug: string;
+}
+
+/** Case-insensitive match on name or slug */
+function same(entry: { name: string; slug: string }, value: string): boolean {
+  const v = value.trim().toLowerCase();
+  return entry.name.toLowerCase() === v || entry.slug.toLowerCase() === v;
+}
+
+/** Map version names ("1.20.1", "Fabric", "Java 17", "Client") or IDs to
+ *  Upload API version IDs. A "type:name" prefix, e.g. "minecraft-1-20:1.20.1",
+ *  picks one version type when a name exists under several. Throws one error
+ *  listing every unknown or ambiguous name. */
+export function matchGameVersions(
+  wanted: Array<string | number>,
+  versions: UploadGameVersion[],
+  types: UploadGameVersionType[],
+): number[] {
+  const typeName = (id: number) => types.find((t) => t.id === id)?.name ?? `type ${id}`;
+  const ids: number[] = [];
+  const problems: string[] = [];
+
+  for (const w of wanted) {
+    if (typeof w === "number" || /^\d+$/.test(w.trim())) {
+      const id = Number(w);
+      if (versions.some((v) => v.id === id)) ids.push(id);
+      else problems.push(`unknown version ID ${id}`);
+      continue;
+    }
+
+    let name = w;
+    let candidates = versions;
+    const sep = w.indexOf(":");
+    if (sep > 0) {
+      const type = types.find((t) => same(t, w.slice(0, sep)));
+      if (!type) {
+        problems.push(`unknown version type "${w.slice(0, sep)}" in "${w}"`);
+        continue;
+      }
+      name = w.slice(sep + 1);
+      candidates = versions.filter((v) => v.gameVersionTypeID === type.id);
+    }
+
+    const matches = candidates.filter((v) => same(v, name));
+    if (matches.length === 1) {
+      ids.push(matches[0].id);
+    } else if (matches.length > 1) {
+      const options = matches.map((v) => `${types.find((t) => t.id === v.gameVersionTypeID)?.slug ?? v.gameVersionTypeID}:${v.name} [${v.id}]`);
+      problems.push(`"${w}" is ambiguous — use one of ${options.join(", ")}`);
+    } else {
+      const q = name.trim().toLowerCase();
+      const close = candidates.filter((v) => v.name.toLowerCase().includes(q)).slice(0, 5);
+      const hint = close.length ? ` — did you mean ${close.map((v) => `${v.name} (${typeName(v.gameVersionTypeID)})`).join(", ")}?` : "";
+      problems.push(`unknown game version "${w}"${hint}`);
+    }
+  }
+
+  if (problems.length) throw new Error(`Cannot resolve game versions: ${problems.join("; ")}`);
+  return [...new Set(ids)];
+}
@@ -0,0 +1,77 @@
+import { createReadStream } from "node:fs";
+import { stat } from "node:fs/promises";
+import { randomBytes } from "node:crypto";
+import path from "node:path";
+import { Readable } from "node:stream";
+
+/** Time allowed on top of the transfer itself (TLS, server-side processing) */
+const UPLOAD_BASE_TIMEOUT_MS = 60_000;
+/** Slowest upload rate tolerated before giving up — 128 KiB/s */
+const UPLOAD_MIN_BYTES_PER_SEC = 128 * 1024;
+
+export interface MultipartUpload {
+  filePath: string;
+  /** Plain form fields sent before the file part */
+  fields?: Record<string, string>;
+  headers?: Record<string, string>;
+  /** Receives bytes sent so far and the total body size */
+  onProgress?: (sent: number, total: number) => void;
+}
+
+/** Timeout for a request body of `bytes` — grows with the file size. */
+export function uploadTimeoutMs(bytes: number): number {
+  return UPLOAD_BASE_TIMEOUT_MS + Math.ceil((bytes / UPLOAD_MIN_BYTES_PER_SEC) * 1000);
+}
+
+function quote(value: string): string {
+  return value.replace(/[\r\n]/g, " ").replace(/"/g, "%22");
+}
+
+/** POST `filePath` as multipart/form-data, streaming it from disk so memory
+ *  stays flat regardless of size. Sent with a Content-Length, a size-aware
+ *  timeout and no retries — the body stream can only be consumed once. */
+export async function postMultipart(url: string, upload: MultipartUpload): Promise<Response> {
+  const size = (await stat(upload.filePath)).size;
+  const boundary = `----curseforge-mcp-${randomBytes(12).toString("hex")}`;
+  const fieldParts = Object.entries(upload.fields ?? {}).map(
+    ([name, value]) => `--${boundary}\r\nContent-Disposition: form-data; name="${quote(name)}"\r\n\r\n${value}\r\n`,
+  );
+  const head = Buffer.from(
+    fieldParts.join("") +
+      `--${boundary}\r\nContent-Disposition: form-data; name="file"; filename="${quote(path.basename(upload.filePath))}"\r\n` +
+      "Content-Type: application/octet-stream\r\n\r\n",
+  );
+  const tail = Buffer.from(`\r\n--${boundary}--\r\n`);
+  const total = head.length + size + tail.length;
+
+  let sent = 0;
+  async function* body(): AsyncGenerator<Buffer> {
+    for (const part of [head, createReadStream(upload.filePath), tail]) {
+      for await (const chunk of Buffer.isBuffer(part) ? [part] : (part as AsyncIterable<Buffer>)) {
+        sent += chunk.length;
+        upload.onProgress?.(sent, total);
+        yield chunk;
+      }
+    }
+  }
+
+  const timeoutMs = uploadTimeoutMs(total);
+  try {
+    return await fetch(url, {
+      method: "POST",
+      headers: {
+        ...upload.headers,
+        "Content-Type": `multipart/form-data; boundary=${boundary}`,
+        "Content-Length": String(total),
+      },
+      body: Readable.from(body()) as any,
+      duplex: "half",
+      signal: AbortSignal.timeout(timeoutMs),
+    } as RequestInit);
+  } catch (e) {
+    if (e instanceof Error && e.name === "TimeoutError") {
+      throw new Error(`Upload timed out after ${Math.round(timeoutMs / 1000)}s (${sent} of ${total} bytes sent)`);
+    }
+    throw e;
+  }
+}
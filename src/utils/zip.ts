@@ -0,0 +1,212 @@
+import { open, type FileHandle } from "node:fs/promises";
+import { deflateRawSync, inflateRawSync } from "node:zlib";
+
+/** Minimal ZIP reader/writer — enough for CurseForge modpacks (stored/deflated
+ *  entries, no ZIP64, no encryption). Works through a file handle so large
+ *  packs are never loaded into memory as a whole. */
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+const EOCD_MIN_SIZE = 22;
+const EOCD_MAX_SEARCH = EOCD_MIN_SIZE + 0xffff;
+
+export interface ZipEntry {
+  name: string;
+  method: number;
+  compressedSize: number;
+  size: number;
+  localHeaderOffset: number;
+  isDirectory: boolean;
+}
+
+export class ZipReader {
+  private constructor(
+    private handle: FileHandle,
+    readonly entries: ZipEntry[],
+  ) {}
+
+  static async open(filePath: string): Promise<ZipReader> {
+    const handle = await open(filePath, "r");
+    try {
+      const entries = await readCentralDirectory(handle);
+      return new ZipReader(handle, entries);
+    } catch (e) {
+      await handle.close();
+      throw e;
+    }
+  }
+
+  find(name: string): ZipEntry | undefined {
+    return this.entries.find((e) => e.name === name);
+  }
+
+  async read(entry: ZipEntry): Promise<Buffer> {
+    const header = Buffer.alloc(30);
+    await this.handle.read(header, 0, 30, entry.localHeaderOffset);
+    if (header.readUInt32LE(0) !== LOCAL_SIGNATURE) {
+      throw new Error(`Corrupt zip: bad local header for ${entry.name}`);
+    }
+    const dataStart = entry.localHeaderOffset + 30 + header.readUInt16LE(26) + header.readUInt16LE(28);
+    const data = Buffer.alloc(entry.compressedSize);
+    await this.handle.read(data, 0, entry.compressedSize, dataStart);
+
+    if (entry.method === 0) return data;
+    if (entry.method === 8) return inflateRawSync(data);
+    throw new Error(`Unsupported zip compression method ${entry.method} for ${entry.name}`);
+  }
+
+  async close(): Promise<void> {
+    await this.handle.close();
+  }
+}
+
+async function readCentralDirectory(handle: FileHandle): Promise<ZipEntry[]> {
+  const { size } = await handle.stat();
+  const tailSize = Math.min(size, EOCD_MAX_SEARCH);
+  const tail = Buffer.alloc(tailSize);
+  await handle.read(tail, 0, tailSize, size - tailSize);
+
+  let eocd = -1;
+  for (let i = tailSize - EOCD_MIN_SIZE; i >= 0; i--) {
+    if (tail.readUInt32LE(i) === EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) throw new Error("Not a zip file (end of central directory not found)");
+
+  const count = tail.readUInt16LE(eocd + 10);
+  const cdSize = tail.readUInt32LE(eocd + 12);
+  const cdOffset = tail.readUInt32LE(eocd + 16);
+  if (count === 0xffff || cdOffset === 0xffffffff) {
+    throw new Error("ZIP64 archives are not supported");
+  }
+
+  const cd = Buffer.alloc(cdSize);
+  await handle.read(cd, 0, cdSize, cdOffset);
+
+  const entries: ZipEntry[] = [];
+  let pos = 0;
+  for (let i = 0; i < count; i++) {
+    if (cd.readUInt32LE(pos) !== CENTRAL_SIGNATURE) {
+      throw new Error("Corrupt zip: bad central directory entry");
+    }
+    const nameLen = cd.readUInt16LE(pos + 28);
+    const extraLen = cd.readUInt16LE(pos + 30);
+    const commentLen = cd.readUInt16LE(pos + 32);
+    const name = cd.toString("utf-8", pos + 46, pos + 46 + nameLen).replace(/\\/g, "/");
+    entries.push({
+      name,
+      method: cd.readUInt16LE(pos + 10),
+      compressedSize: cd.readUInt32LE(pos + 20),
+      size: cd.readUInt32LE(pos + 24),
+      localHeaderOffset: cd.readUInt32LE(pos + 42),
+      isDirectory: name.endsWith("/"),
+    });
+    pos += 46 + nameLen + extraLen + commentLen;
+  }
+  return entries;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function dosDateTime(d: Date): { time: number; date: number } {
+  return {
+    time: (d.getHours() << 11) | (d.getMinutes() << 5) | Math.floor(d.getSeconds() / 2),
+    date: ((d.getFullYear() - 1980) << 9) | ((d.getMonth() + 1) << 5) | d.getDate(),
+  };
+}
+
+/** Sequential ZIP writer: entries are deflated one at a time and appended,
+ *  the central directory is written on close(). */
+export class ZipWriter {
+  private offset = 0;
+  private central: Buffer[] = [];
+  private count = 0;
+  private stamp = dosDateTime(new Date());
+
+  private constructor(private handle: FileHandle) {}
+
+  static async create(filePath: string): Promise<ZipWriter> {
+    return new ZipWriter(await open(filePath, "w"));
+  }
+
+  /** Add a directory entry — `name` gets a trailing slash if missing. */
+  async addDirectory(name: string): Promise<void> {
+    await this.addFile(name.endsWith("/") ? name : `${name}/`, Buffer.alloc(0));
+  }
+
+  async addFile(name: string, data: Buffer): Promise<void> {
+    const nameBuf = Buffer.from(name, "utf-8");
+    const deflated = data.length ? deflateRawSync(data) : data;
+    const useDeflate = deflated.length < data.length;
+    const body = useDeflate ? deflated : data;
+    const method = useDeflate ? 8 : 0;
+    const crc = crc32(data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(LOCAL_SIGNATURE, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(0x0800, 6); // UTF-8 names
+    local.writeUInt16LE(method, 8);
+    local.writeUInt16LE(this.stamp.time, 10);
+    local.writeUInt16LE(this.stamp.date, 12);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(body.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(nameBuf.length, 26);
+    local.writeUInt16LE(0, 28);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(CENTRAL_SIGNATURE, 0);
+    central.writeUInt16LE(20, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(0x0800, 8);
+    central.writeUInt16LE(method, 10);
+    central.writeUInt16LE(this.stamp.time, 12);
+    central.writeUInt16LE(this.stamp.date, 14);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(body.length, 20);
+    central.writeUInt32LE(data.length, 24);
+    central.writeUInt16LE(nameBuf.length, 28);
+    central.writeUInt32LE(name.endsWith("/") ? 0x10 : 0, 38);
+    central.writeUInt32LE(this.offset, 42);
+    this.central.push(central, nameBuf);
+
+    await this.handle.write(Buffer.concat([local, nameBuf, body]));
+    this.offset += local.length + nameBuf.length + body.length;
+    this.count++;
+  }
+
+  async close(): Promise<void> {
+    const cd = Buffer.concat(this.central);
+    const eocd = Buffer.alloc(EOCD_MIN_SIZE);
+    eocd.writeUInt32LE(EOCD_SIGNATURE, 0);
+    eocd.writeUInt16LE(this.count, 8);
+    eocd.writeUInt16LE(this.count, 10);
+    eocd.writeUInt32LE(cd.length, 12);
+    eocd.writeUInt32LE(this.offset, 16);
+    await this.handle.write(Buffer.concat([cd, eocd]));
+    await this.handle.close();
+  }
+
+  /** Close the file without writing the central directory, e.g. after a failed write. */
+  async abort(): Promise<void> {
+    await this.handle.close().catch(() => {});
+  }
+}
@@ -0,0 +1,30 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { computeFingerprint } from "../src/utils/fingerprint.js";
+
+const bytes = (s: string) => new TextEncoder().encode(s);
+
+test("matches MurmurHash2 (seed 1) for every tail length", () => {
+  assert.equal(computeFingerprint(bytes("")), 1540447798);
+  assert.equal(computeFingerprint(bytes("a")), 626045324);
+  assert.equal(computeFingerprint(bytes("ab")), 1692487918);
+  assert.equal(computeFingerprint(bytes("abc")), 1621425345);
+  assert.equal(computeFingerprint(bytes("abcd")), 3376380438);
+  assert.equal(computeFingerprint(bytes("helloworld")), 2824650221);
+});
+
+test("ignores tab, LF, CR and space bytes", () => {
+  assert.equal(computeFingerprint(bytes(" hello\tworld\r\n")), computeFingerprint(bytes("helloworld")));
+  assert.equal(computeFingerprint(bytes("The quick brown fox")), 2287222251);
+  assert.equal(computeFingerprint(bytes(" \t\r\n")), computeFingerprint(bytes("")));
+});
+
+test("keeps other whitespace-like bytes", () => {
+  assert.notEqual(computeFingerprint(bytes("a\vb")), computeFingerprint(bytes("ab")));
+});
+
+test("returns an unsigned 32-bit value", () => {
+  const data = new Uint8Array(1000).map((_, i) => (i * 37) & 0xff);
+  const fp = computeFingerprint(data);
+  assert.ok(Number.isInteger(fp) && fp >= 0 && fp <= 0xffffffff);
+});
@@ -0,0 +1,47 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { collectOverrides, writeModpack } from "../src/utils/modpack.js";
+import { ZipReader } from "../src/utils/zip.js";
+import type { ModpackManifest } from "../src/utils/types.js";
+
+const manifest: ModpackManifest = {
+  minecraft: { version: "1.20.1", modLoaders: [] },
+  manifestType: "minecraftModpack",
+  manifestVersion: 1,
+  name: "Test",
+  version: "1.0.0",
+  author: "",
+  files: [],
+  overrides: "overrides",
+};
+
+test("exports nested override folders with their relative paths", async () => {
+  const dir = await mkdtemp(path.join(tmpdir(), "cf-modpack-"));
+  try {
+    const overridesDir = path.join(dir, "src");
+    await mkdir(path.join(overridesDir, "config", "sub"), { recursive: true });
+    await writeFile(path.join(overridesDir, "config", "sub", "x.toml"), "x = 1\n");
+    await writeFile(path.join(overridesDir, "options.txt"), "fov:90\n");
+
+    const overrides = await collectOverrides(overridesDir);
+    assert.deepEqual(overrides.map((o) => o.target).sort(), ["config/sub/x.toml", "options.txt"]);
+
+    const output = path.join(dir, "pack.zip");
+    await writeModpack(output, manifest, "<ul></ul>", overrides);
+    const zip = await ZipReader.open(output);
+    try {
+      const entry = zip.find("overrides/config/sub/x.toml");
+      assert.ok(entry, "nested override is packed under its folder");
+      assert.equal((await zip.read(entry)).toString(), "x = 1\n");
+      assert.ok(zip.find("overrides/options.txt"));
+      assert.equal(JSON.parse((await zip.read(zip.find("manifest.json")!)).toString()).name, "Test");
+    } finally {
+      await zip.close();
+    }
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,41 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { parseProjectRef } from "../src/clients/project-resolver.js";
+
+test("numeric IDs", () => {
+  assert.deepEqual(parseProjectRef(238222), { id: 238222 });
+  assert.deepEqual(parseProjectRef(" 238222 "), { id: 238222 });
+});
+
+test("bare slugs are lower-cased", () => {
+  assert.deepEqual(parseProjectRef("JEI"), { slug: "jei" });
+});
+
+test("game/class/slug paths and project URLs", () => {
+  const jei = { gameSlug: "minecraft", classSlug: "mc-mods", slug: "jei", fileId: undefined };
+  assert.deepEqual(parseProjectRef("minecraft/mc-mods/jei"), jei);
+  assert.deepEqual(parseProjectRef("https://www.curseforge.com/minecraft/mc-mods/jei"), jei);
+  assert.deepEqual(parseProjectRef("https://api.cfwidget.com/minecraft/mc-mods/jei"), jei);
+});
+
+test("file URLs carry the file ID", () => {
+  assert.equal(parseProjectRef("https://www.curseforge.com/minecraft/mc-mods/jei/files/4712866").fileId, 4712866);
+  assert.equal(parseProjectRef("https://www.curseforge.com/minecraft/mc-mods/jei/download/4712866").fileId, 4712866);
+});
+
+test("authors console and /projects/<id> URLs", () => {
+  assert.deepEqual(parseProjectRef("https://authors.curseforge.com/#/projects/123/files"), { id: 123 });
+  assert.deepEqual(parseProjectRef("https://www.curseforge.com/projects/238222"), { id: 238222 });
+});
+
+test("legacy projects/<slug> references", () => {
+  assert.deepEqual(parseProjectRef("https://minecraft.curseforge.com/projects/jei"), { gameSlug: "minecraft", slug: "jei", fileId: undefined });
+  assert.deepEqual(parseProjectRef("/projects/JEI"), { gameSlug: undefined, slug: "jei", fileId: undefined });
+  assert.equal(parseProjectRef("https://minecraft.curseforge.com/projects/jei/files/42").fileId, 42);
+  assert.equal(parseProjectRef("https://www.curseforge.com/projects/jei").gameSlug, undefined);
+});
+
+test("rejects other hosts and unknown shapes", () => {
+  assert.throws(() => parseProjectRef("https://modrinth.com/mod/jei"), /Not a CurseForge URL/);
+  assert.throws(() => parseProjectRef("minecraft/jei"), /Unrecognised project reference/);
+});
@@ -0,0 +1,121 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import {
+  changelogSection,
+  expandGlob,
+  expandTemplate,
+  planRelease,
+  releaseConfigSchema,
+  releaseTypeFor,
+} from "../src/utils/release-config.js";
+
+async function withProject(files: Record<string, string>, fn: (dir: string) => Promise<void>): Promise<void> {
+  const dir = await mkdtemp(path.join(tmpdir(), "cf-release-"));
+  try {
+    for (const [name, content] of Object.entries(files)) {
+      await mkdir(path.dirname(path.join(dir, name)), { recursive: true });
+      await writeFile(path.join(dir, name), content);
+    }
+    await fn(dir);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
+
+const CHANGELOG = `# Changelog
+
+## [1.4.0-beta.2] - 2026-10-01
+### Fixed
+- crash on load
+
+## [1.4.0-beta.1]
+- older
+
+## 1.3.0
+- first
+`;
+
+test("expandTemplate substitutes placeholders and rejects unknown or unset ones", () => {
+  assert.equal(expandTemplate("MyMod {version} ({gameVersion})", { version: "1.0", gameVersion: "1.20.1" }), "MyMod 1.0 (1.20.1)");
+  assert.equal(expandTemplate("no placeholders", {}), "no placeholders");
+  assert.throws(() => expandTemplate("{verison}", { version: "1.0" }), /uses \{verison\} — available: \{version\}/);
+  assert.throws(() => expandTemplate("{version}", { version: undefined }), /available: none/);
+});
+
+test("releaseTypeFor reads the version suffix", () => {
+  assert.equal(releaseTypeFor("1.4.0-beta.2"), "beta");
+  assert.equal(releaseTypeFor("1.4.0-ALPHA"), "alpha");
+  assert.equal(releaseTypeFor("1.4.0"), "release");
+  assert.equal(releaseTypeFor(undefined), "release");
+  assert.equal(releaseTypeFor("1.4.0-rc1", { "-rc": "beta" }), "beta");
+});
+
+test("changelogSection returns only the version's section", () => {
+  assert.equal(changelogSection(CHANGELOG, "1.4.0-beta.2"), "### Fixed\n- crash on load");
+  assert.equal(changelogSection(CHANGELOG, "1.3.0"), "- first");
+  // A shorter version never matches inside a longer one
+  assert.equal(changelogSection(CHANGELOG, "1.3"), undefined);
+  assert.equal(changelogSection("## v2.0\n- x\n", "2.0"), "- x");
+  assert.equal(changelogSection(CHANGELOG, "9.9.9"), undefined);
+});
+
+test("expandGlob matches *, ? and ** relative to the directory", () =>
+  withProject({ "build/libs/a-1.0.jar": "x", "build/libs/a-1.0-sources.jar": "x", "build/tmp/b.jar": "x", "c.txt": "x" }, async (dir) => {
+    const rel = (files: string[]) => files.map((f) => path.relative(dir, f).split(path.sep).join("/")).sort();
+    assert.deepEqual(rel(await expandGlob(dir, "build/libs/*.jar")), ["build/libs/a-1.0-sources.jar", "build/libs/a-1.0.jar"]);
+    assert.deepEqual(rel(await expandGlob(dir, "build/libs/a-1.?.jar")), ["build/libs/a-1.0.jar"]);
+    assert.deepEqual(rel(await expandGlob(dir, "build/**/*.jar")), ["build/libs/a-1.0-sources.jar", "build/libs/a-1.0.jar", "build/tmp/b.jar"]);
+    assert.deepEqual(rel(await expandGlob(dir, "c.txt")), ["c.txt"]);
+    assert.deepEqual(await expandGlob(dir, "missing/*.jar"), []);
+    assert.deepEqual(await expandGlob(dir, "nope.txt"), []);
+  }));
+
+test("planRelease expands files, names, release type and changelog section", () =>
+  withProject(
+    {
+      "build/libs/mymod-1.4.0-beta.2.jar": "x",
+      "build/libs/mymod-1.4.0-beta.2-sources.jar": "x",
+      "CHANGELOG.md": CHANGELOG,
+    },
+    async (dir) => {
+      const config = releaseConfigSchema.parse({
+        projectId: "my-mod",
+        files: {
+          primary: "build/libs/mymod-{version}.jar",
+          additional: [{ glob: "build/libs/*-sources.jar", displayName: "{fileName}" }, "build/libs/mymod-{version}.jar"],
+        },
+        displayName: "MyMod {version} ({gameVersion})",
+        gameVersions: ["1.20.1", "Fabric"],
+        changelog: { file: "CHANGELOG.md" },
+      });
+      const plan = await planRelease(config, dir, { version: "1.4.0-beta.2" });
+      assert.equal(plan.releaseType, "beta");
+      assert.equal(plan.changelog, "### Fixed\n- crash on load");
+      assert.equal(plan.changelogType, "markdown");
+      assert.equal(plan.primary.displayName, "MyMod 1.4.0-beta.2 (1.20.1)");
+      // The primary file is not repeated as an additional file
+      assert.deepEqual(
+        plan.additional.map((f) => [path.basename(f.filePath), f.displayName]),
+        [["mymod-1.4.0-beta.2-sources.jar", "mymod-1.4.0-beta.2-sources"]],
+      );
+
+      const overridden = await planRelease(config, dir, { version: "1.4.0-beta.2", releaseType: "release", changelog: "hand-written" });
+      assert.equal(overridden.releaseType, "release");
+      assert.equal(overridden.changelog, "hand-written");
+    },
+  ));
+
+test("planRelease refuses ambiguous or missing files", () =>
+  withProject({ "a-1.jar": "x", "a-2.jar": "x" }, async (dir) => {
+    const config = (primary: string, additional: string[] = []) => releaseConfigSchema.parse({ projectId: 1, files: { primary, additional } });
+    await assert.rejects(planRelease(config("a-*.jar"), dir), /matched 2 files/);
+    await assert.rejects(planRelease(config("b.jar"), dir), /matched 0 files/);
+    await assert.rejects(planRelease(config("a-1.jar", ["*.zip"]), dir), /"\*\.zip" matched no files/);
+    await assert.rejects(
+      planRelease(releaseConfigSchema.parse({ projectId: 1, files: { primary: "a-1.jar" }, changelog: { file: "a-1.jar" } }), dir),
+      /changelog\.section needs a version/,
+    );
+  }));
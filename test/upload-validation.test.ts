@@ -0,0 +1,40 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { checkChangelog, type UploadProblems } from "../src/utils/upload-validation.js";
+
+function check(changelog: string | undefined, type: "text" | "html" | "markdown"): UploadProblems {
+  const problems: UploadProblems = { errors: [], warnings: [] };
+  checkChangelog(changelog, type, problems);
+  return problems;
+}
+
+test("balanced HTML passes, including void and self-closing tags", () => {
+  assert.deepEqual(check("<p>Fixed <b>crash</b><br>on load<img src=x /></p><ul><li>one</li></ul>", "html"), { errors: [], warnings: [] });
+});
+
+test("reports unclosed and stray tags", () => {
+  assert.deepEqual(check("<p>hi <b>there</p>", "html").errors, ["changelog HTML has unbalanced tags: <b>"]);
+  assert.deepEqual(check("<ul><li>one</ul>", "html").errors, ["changelog HTML has unbalanced tags: <li>"]);
+  assert.deepEqual(check("<p>open", "html").errors, ["changelog HTML has unbalanced tags: <p>"]);
+  assert.deepEqual(check("text</i>", "html").errors, ["changelog HTML has unbalanced tags: </i>"]);
+});
+
+test("tag names are case-insensitive", () => {
+  assert.deepEqual(check("<P>x</p>", "html").errors, []);
+});
+
+test("warns about Markdown sent as HTML and empty HTML", () => {
+  assert.match(check("## Fixed\n- crash", "html").warnings.join(), /looks like Markdown/);
+  assert.match(check("<p> </p>", "html").warnings.join(), /no visible text/);
+});
+
+test("Markdown: unclosed code fence is an error, HTML a warning", () => {
+  assert.deepEqual(check("```\ncode", "markdown").errors, ["changelog Markdown has an unclosed ``` code fence"]);
+  assert.match(check("- fixed <b>crash</b>", "markdown").warnings.join(), /contains HTML tags/);
+});
+
+test("text with markup and empty changelogs warn", () => {
+  assert.match(check("**bold**", "text").warnings.join(), /contains Markdown/);
+  assert.deepEqual(check("  ", "text").warnings, ["changelog is empty"]);
+  assert.deepEqual(check(undefined, "markdown").warnings, ["changelog is empty"]);
+});
@@ -0,0 +1,50 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { matchGameVersions, type UploadGameVersion, type UploadGameVersionType } from "../src/utils/upload-versions.js";
+
+const types: UploadGameVersionType[] = [
+  { id: 1, name: "Minecraft 1.20", slug: "minecraft-1-20" },
+  { id: 2, name: "Modloader", slug: "modloader" },
+  { id: 3, name: "Java", slug: "java" },
+  { id: 4, name: "Bukkit 1.20", slug: "bukkit-1-20" },
+];
+const versions: UploadGameVersion[] = [
+  { id: 10, gameVersionTypeID: 1, name: "1.20.1", slug: "1-20-1" },
+  { id: 11, gameVersionTypeID: 1, name: "1.20.2", slug: "1-20-2" },
+  { id: 20, gameVersionTypeID: 2, name: "Fabric", slug: "fabric" },
+  { id: 30, gameVersionTypeID: 3, name: "Java 17", slug: "java-17" },
+  { id: 40, gameVersionTypeID: 4, name: "1.20.1", slug: "1-20-1" },
+];
+
+test("matches IDs, names and slugs case-insensitively", () => {
+  assert.deepEqual(matchGameVersions([11, "20", "fabric", "JAVA-17"], versions, types), [11, 20, 30]);
+});
+
+test("de-duplicates IDs", () => {
+  assert.deepEqual(matchGameVersions(["Fabric", 20, "fabric"], versions, types), [20]);
+});
+
+test("a type prefix picks one of several same-named versions", () => {
+  assert.deepEqual(matchGameVersions(["minecraft-1-20:1.20.1"], versions, types), [10]);
+  assert.deepEqual(matchGameVersions(["Bukkit 1.20:1.20.1"], versions, types), [40]);
+});
+
+test("ambiguous names list the prefixed alternatives", () => {
+  assert.throws(
+    () => matchGameVersions(["1.20.1"], versions, types),
+    /"1\.20\.1" is ambiguous — use one of minecraft-1-20:1\.20\.1 \[10\], bukkit-1-20:1\.20\.1 \[40\]/,
+  );
+});
+
+test("reports every unknown entry in one error, with suggestions", () => {
+  assert.throws(() => matchGameVersions(["1.20", 99, "nope:1.20.1"], versions, types), (e: Error) => {
+    assert.match(e.message, /unknown game version "1\.20" — did you mean 1\.20\.1 \(Minecraft 1\.20\)/);
+    assert.match(e.message, /unknown version ID 99/);
+    assert.match(e.message, /unknown version type "nope"/);
+    return true;
+  });
+});
+
+test("nothing wanted, nothing returned", () => {
+  assert.deepEqual(matchGameVersions([], versions, types), []);
+});
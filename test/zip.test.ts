@@ -0,0 +1,62 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { ZipReader, ZipWriter } from "../src/utils/zip.js";
+
+async function withTempDir(fn: (dir: string) => Promise<void>): Promise<void> {
+  const dir = await mkdtemp(path.join(tmpdir(), "cf-zip-"));
+  try {
+    await fn(dir);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
+
+test("round-trips stored, deflated, empty and directory entries", () =>
+  withTempDir(async (dir) => {
+    const file = path.join(dir, "pack.zip");
+    const compressible = Buffer.from("abc".repeat(1000));
+    const random = Buffer.from([0x8f, 0x01, 0xfe, 0x33]);
+    const zip = await ZipWriter.create(file);
+    await zip.addFile("manifest.json", compressible);
+    await zip.addFile("tiny.bin", random);
+    await zip.addFile("empty.txt", Buffer.alloc(0));
+    await zip.addDirectory("overrides");
+    await zip.addFile("overrides/config/ünïcode.toml", Buffer.from("x = 1\n"));
+    await zip.close();
+
+    const reader = await ZipReader.open(file);
+    try {
+      assert.deepEqual(
+        reader.entries.map((e) => e.name),
+        ["manifest.json", "tiny.bin", "empty.txt", "overrides/", "overrides/config/ünïcode.toml"],
+      );
+      assert.equal(reader.find("manifest.json")!.method, 8);
+      assert.equal(reader.find("tiny.bin")!.method, 0);
+      assert.ok(reader.find("overrides/")!.isDirectory);
+      assert.deepEqual(await reader.read(reader.find("manifest.json")!), compressible);
+      assert.deepEqual(await reader.read(reader.find("tiny.bin")!), random);
+      assert.equal((await reader.read(reader.find("empty.txt")!)).length, 0);
+      assert.equal((await reader.read(reader.find("overrides/config/ünïcode.toml")!)).toString(), "x = 1\n");
+    } finally {
+      await reader.close();
+    }
+  }));
+
+test("an aborted archive has no central directory", () =>
+  withTempDir(async (dir) => {
+    const file = path.join(dir, "broken.zip");
+    const zip = await ZipWriter.create(file);
+    await zip.addFile("manifest.json", Buffer.from("{}"));
+    await zip.abort();
+    await assert.rejects(ZipReader.open(file));
+  }));
+
+test("rejects files that are not zips", () =>
+  withTempDir(async (dir) => {
+    const file = path.join(dir, "not.zip");
+    await writeFile(file, "definitely not a zip");
+    await assert.rejects(ZipReader.open(file));
+  }));